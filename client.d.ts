@@ -0,0 +1,29 @@
+// Module declarations for the default inline import query.
+// Add `"unplugin-inline-source/client"` to `compilerOptions.types`.
+//
+// A module pattern holds a single `*`, so imports with settings are only
+// matched when those come first: `./card.css?maxSize=8kb&inline-source`.
+//
+// With a custom `query` option, declare its modules the same way in a `.d.ts`
+// file of the project, e.g. for `query: 'inline'`:
+//
+//   declare module '*?inline' {
+//     const content: string
+//     export default content
+//   }
+//   declare module '*&inline' {
+//     const content: string
+//     export default content
+//   }
+
+/** Built content of the imported script or stylesheet */
+declare module '*?inline-source' {
+  const content: string
+  export default content
+}
+
+/** Built content, with per-import settings before the query */
+declare module '*&inline-source' {
+  const content: string
+  export default content
+}
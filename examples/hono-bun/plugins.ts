@@ -7,6 +7,9 @@ import tailwindPlugin from 'bun-plugin-tailwind'
  * Includes unplugin-inline-source and bun-plugin-tailwind
  */
 export const plugins: BunPlugin[] = [
-  inlineSourcePlugin(),
+  inlineSourcePlugin({
+    // Inline entries are built in a separate Bun process, so plugins are passed by name
+    build: { bun: { plugins: ['bun-plugin-tailwind'] } },
+  }),
   tailwindPlugin,
 ]
@@ -1,9 +1,159 @@
+import type { SourceMap } from 'magic-string'
+import { computeCspHash, mergeCspMeta, withCspNonce, cspDirectiveFor, type CspDirective } from './internal/csp'
+import { checkInlineBudget, parseInlineValue, parseSize, resolveMaxSize } from './internal/budget'
+import { resolveMode, shouldInline } from './internal/conditions'
+import { applyTransformContent } from './internal/transform-content'
+import { minifyContent, type Minifier } from './internal/minify'
+import { createFilter } from './internal/filter'
+import { locate, reportFailure } from './internal/diagnostics'
+import { attachSourceMap, type SourcemapMode } from './internal/sourcemap'
+import { joinCssUrl, rebaseCssUrls } from './internal/css-urls'
+import { detectJsxRuntime, jsxEmitter } from './internal/jsx-runtime'
+import { collectAstroTags, collectJsxTags, loadBabelParser, loadMagicString, loadRelativeModule, type InlineTag } from './internal/jsx-transform'
+import { escapeAttributeValue, findHtmlElements, formatElementAttributes, parseTagAttributes, replaceRanges, type HtmlElement } from './internal/html-tokenizer'
+
+export type { SourcemapMode } from './internal/sourcemap'
+export type { Minifier } from './internal/minify'
+
 export interface InlineEntry {
   filePath: string
   type: 'js' | 'css'
   refId?: string      // JS: emitted chunk refId, CSS: emitted wrapper chunk refId
+  maxSize?: number    // per-tag size limit (`inline="8kb"`)
+  format?: InlineFormat // JS output format (`inline-format="esm"`)
+  importer?: string   // module that imported it, for diagnostics
+  raw?: boolean       // kept as written with `minify` (`inline="raw"`)
+}
+
+/**
+ * Output format of an inlined script: a classic-script IIFE (default) or an
+ * ES module for `<script type="module">`. Both are bundled into one file.
+ */
+export type InlineFormat = 'iife' | 'esm'
+
+/**
+ * JSX convention for setting the inlined content:
+ * - `react`, `hono`, `preact`: `dangerouslySetInnerHTML={{__html: x}}`
+ * - `solid`, `vue`: `innerHTML={x}`
+ * - `astro`: `set:html={x}` (with `is:inline`), imports go in the frontmatter
+ */
+export type JsxRuntime = 'react' | 'hono' | 'preact' | 'solid' | 'vue' | 'astro'
+
+/**
+ * Custom replacement for an inlined element. `attributes` holds its remaining
+ * attributes (with a leading space when there are any) and `content` the
+ * expression that evaluates to the inlined code.
+ */
+export type JsxEmitter = (element: { tag: 'script' | 'style'; attributes: string; content: string }) => string
+
+/**
+ * What the `when` option and attribute conditions decide on
+ */
+export interface InlineConditionContext {
+  /** Build mode, e.g. `'development'` or `'production'` */
+  mode: string
+  /** Bundler running the plugin (`meta.framework`) */
+  framework?: string
+  /** HTML or JSX file containing the tag */
+  file?: string
+  /** The tag's `src`/`href` */
+  path: string
+  type: 'js' | 'css'
+}
+
+/**
+ * Where inlined content is going, passed to `transformContent`
+ */
+export interface TransformContentContext {
+  type: 'js' | 'css'
+  /** Source file, or the tag's `src`/`href` in HTML */
+  filePath: string
+  /** Page or output file receiving the content, when known */
+  host?: string
+  /** Bundler running the plugin (`meta.framework`) */
+  framework?: string
+}
+
+/**
+ * The page being transformed, passed on to `when`
+ */
+export interface PageContext {
+  file?: string
+  framework?: string
+  /** Report a tag that cannot be inlined. Defaults to `console.warn` */
+  warn?: (diagnostic: InlineDiagnostic) => void
+  /** Report a failure with `strict`. Defaults to throwing */
+  error?: (diagnostic: InlineDiagnostic) => void
+  /** Minifier for the `minify` option. Defaults to esbuild when installed */
+  minify?: Minifier
+}
+
+/**
+ * A tag or import that could not be inlined, located when known
+ */
+export interface InlineDiagnostic {
+  message: string
+  /** File containing the tag, or the file that failed to inline */
+  file?: string
+  /** 1-based position of the tag */
+  line?: number
+  column?: number
+}
+
+/**
+ * Glob (matched against the root-relative path), regex or predicate, or a list of them
+ */
+export type FilterPattern = string | RegExp | ((id: string) => boolean) | Array<string | RegExp | ((id: string) => boolean)>
+
+export interface FilterOptions {
+  include?: FilterPattern
+  exclude?: FilterPattern
+}
+
+export interface JsxOptions extends FilterOptions {
+  /**
+   * Runtime (or custom emitter) for the replacement elements. Detected from the
+   * file type (`.astro`, `.vue`), its `@jsxImportSource` pragma or `importSource`.
+   * @default 'react'
+   */
+  runtime?: JsxRuntime | JsxEmitter
+
+  /**
+   * `jsxImportSource` used to detect the runtime for files without a pragma.
+   * The plugin reads it from `tsconfig.json` when not set.
+   */
+  importSource?: string
+
+  /**
+   * JSX and Astro modules to transform; `exclude` defaults to `node_modules`.
+   */
+  include?: FilterPattern
+  exclude?: FilterPattern
 }
 
+export type CspOptions =
+  | {
+      /** Add a `nonce` attribute to every inlined `<script>`/`<style>` */
+      mode: 'nonce'
+      /** Nonce value, or a placeholder your server replaces per request */
+      nonce: string
+    }
+  | {
+      /** Compute hashes of the final inlined content */
+      mode: 'hash'
+      /** @default 'sha256' */
+      algorithm?: 'sha256' | 'sha384'
+      /**
+       * Write or merge a `<meta http-equiv="Content-Security-Policy">` tag into transformed HTML.
+       * @default true
+       */
+      meta?: boolean
+      /**
+       * Emit a JSON file with the hashes for each HTML/JS output file (e.g. `'csp-hashes.json'`).
+       */
+      manifest?: string
+    }
+
 export interface TransformOptions {
   /**
    * The attribute name to trigger inlining.
@@ -13,21 +163,219 @@ export interface TransformOptions {
 
   /**
    * Optional bundler build overrides for Bun/Farm inline builds.
+   * Bun overrides are passed to a separate Bun process and must be JSON-serializable;
+   * give `plugins` as module specifiers (e.g. `['bun-plugin-tailwind']`).
    */
   build?: {
     bun?: Record<string, unknown>
     farm?: Record<string, unknown>
   }
+
+  /**
+   * Content-Security-Policy support for inlined blocks.
+   */
+  csp?: CspOptions
+
+  /**
+   * Only inline content up to this size (bytes, or a string such as `'8kb'`).
+   * Larger targets stay external with the attribute removed. A size given as the
+   * attribute value (`inline="8kb"`) overrides this per tag.
+   */
+  maxSize?: number | string
+
+  /**
+   * Measure `maxSize` against the gzip-compressed size.
+   * @default false
+   */
+  maxSizeGzip?: boolean
+
+  /**
+   * Fail the build instead of warning when content exceeds its size budget.
+   * @default false
+   */
+  failOnBudget?: boolean
+
+  /**
+   * Source maps for inlined blocks, taken from the bundler output (enable its
+   * source maps) or from `sourceMappingURL` comments in the inlined files.
+   * - `'inline'`: embed the map as a data URI
+   * - `'external'`: keep the map as a file and reference it
+   * - `'hidden'`: keep the map as a file without a reference
+   *
+   * Inlined blocks also get a `sourceURL` comment naming the original file.
+   */
+  sourcemap?: SourcemapMode
+
+  /**
+   * Embed assets referenced by `url()` in inlined CSS as data URIs when they are
+   * at most this size (bytes, or a string such as `'4kb'`). Other relative URLs
+   * are rebased to the page; the files referenced by a stylesheet read from
+   * disk are emitted with the build output.
+   */
+  cssAssetsInlineLimit?: number | string
+
+  /**
+   * Import query that inlines a file from JS: `import css from './card.css?inline-source'`
+   * gives the built content as a string. Per-import settings can follow it
+   * (`?inline-source&maxSize=8kb&format=esm`) or, to match the module
+   * declarations, precede it (`?maxSize=8kb&format=esm&inline-source`). Add
+   * `unplugin-inline-source/client` to `compilerOptions.types` for the default
+   * query's declarations; a custom query needs its own (see `client.d.ts`).
+   * @default 'inline-source'
+   */
+  query?: string
+
+  /**
+   * How `<script inline>`/`<link inline>` in JSX are replaced. Modules with
+   * such tags need the optional peer dependencies `@babel/parser` and
+   * `magic-string`.
+   */
+  jsx?: JsxOptions
+
+  /**
+   * HTML files to transform, by output name (or source path in Vite).
+   */
+  html?: FilterOptions
+
+  /**
+   * Referenced files that may be inlined, by `src`/`href` (or import path) as
+   * written. Tags for other files keep the attribute; inline imports of them
+   * are reported and load as an empty string.
+   */
+  assets?: FilterOptions
+
+  /**
+   * Mode that attribute conditions are checked against: `inline="production"`
+   * only inlines in production, `inline="!dev"` everywhere but development
+   * (`dev`/`prod` are short for `development`/`production`). Other words count
+   * as conditions only when negated or equal to this mode, so `inline="true"`
+   * still always inlines. The plugin sets it from the bundler (Vite or webpack
+   * `mode`), else `NODE_ENV` is used.
+   */
+  mode?: string
+
+  /**
+   * Decide per tag whether to inline, on top of the attribute's conditions.
+   * Tags that are not inlined just lose the attribute.
+   */
+  when?: (ctx: InlineConditionContext) => boolean
+
+  /**
+   * Post-process content before it is inlined: after it is built or read and
+   * before the size budget, source map comment and escaping are applied.
+   */
+  transformContent?: (content: string, ctx: TransformContentContext) => string | Promise<string>
+
+  /**
+   * Minify JS and CSS inlined as read from disk rather than built: with the
+   * bundler's minifier when it has one (esbuild, Bun, or Lightning CSS and
+   * esbuild in Vite), else with esbuild when it is installed. Without either,
+   * comments and whitespace are stripped, keeping line breaks. Tags with
+   * `inline="raw"` (imports with `&raw`) keep their content as written.
+   * @default false
+   */
+  minify?: boolean
+
+  /**
+   * Emit a JSON report of every inline operation (`true` for `'inline-report.json'`,
+   * or a file name). With `print`, a summary table is also logged.
+   */
+  report?: boolean | string | ReportOptions
+
+  /**
+   * Fail the build when a tag or import cannot be inlined (a file that cannot be
+   * resolved or built, or a JSX source unknown at build time) instead of warning.
+   * @default false
+   */
+  strict?: boolean
+
+  /**
+   * Reuse inline builds (webpack/Rspack child compilations, Bun and Farm builds)
+   * while their entry, the files it depends on, the build options, the bundler's
+   * loaders, resolve and plugin settings and these plugin options are unchanged.
+   * Kept in memory for watch mode unless `false`; `{ dir }` also keeps them on
+   * disk across runs, by default in `node_modules/.cache/unplugin-inline-source`.
+   * @default true
+   */
+  cache?: boolean | { dir?: string }
+
+  /**
+   * Maximum number of webpack/Rspack child compilations run at once. A file
+   * imported from several modules is built once for all of them.
+   * @default 4
+   */
+  concurrency?: number
+}
+
+export interface ReportOptions {
+  /** @default 'inline-report.json' */
+  fileName?: string
+  /** Log a summary table at the end of the build */
+  print?: boolean
+}
+
+/**
+ * How inlined content was produced:
+ * - `chunk`: a chunk or asset the bundler emitted
+ * - `build`: a separate build of the file (Rollup, Vite, esbuild)
+ * - `child-compiler`: a webpack/rspack child compilation
+ * - `raw`: the file read from disk as-is
+ * - `output`: an output file referenced from HTML
+ */
+export type InlineVia = 'chunk' | 'build' | 'child-compiler' | 'raw' | 'output'
+
+export interface InlineReportEntry {
+  /** HTML or JS output file the content went into */
+  host: string
+  /** Inlined file, relative to the project root, or the `src`/`href` in HTML */
+  source: string
+  /** Marker replaced in `host`, for JS imports and JSX tags */
+  marker?: string
+  type: 'js' | 'css'
+  via: InlineVia
+  /** The content was read raw because the bundler could not produce it */
+  fallback: boolean
+  /** `external`: over its size budget, referenced instead; `failed`: no content */
+  status: 'inlined' | 'external' | 'failed'
+  size: number
+  gzipSize: number
+  brotliSize: number
+}
+
+export interface InlinedAsset {
+  type: 'js' | 'css'
+  src: string
+  content: string
+  /** CSP hash of `content`, when `csp.mode` is `'hash'` */
+  hash?: string
+}
+
+/**
+ * A tag that was not inlined: over its size budget, or its content could not be resolved
+ */
+export interface SkippedAsset {
+  type: 'js' | 'css'
+  src: string
+  status: 'external' | 'failed'
+  /** The over-budget content */
+  content?: string
 }
 
 export type ResolveContent = (path: string) => Promise<string | null>
 
+/**
+ * Reads an asset referenced from inlined CSS, for `cssAssetsInlineLimit`
+ */
+export type ResolveAsset = (path: string) => Promise<Uint8Array | null>
+
+/**
+ * Parse an attribute string (the part of a tag after its name) using the
+ * HTML tokenizer's attribute rules. Values have character references decoded.
+ */
 export function parseAttributes(attrString: string): Record<string, string> {
   const attrs: Record<string, string> = {}
-  const re = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?/g
-  let m
-  while ((m = re.exec(attrString)) !== null) {
-    attrs[m[1]] = m[2] ?? m[3] ?? m[4] ?? ''
+  for (const attr of parseTagAttributes(`${attrString}>`, 0).attrs) {
+    if (!(attr.name in attrs)) attrs[attr.name] = attr.value
   }
   return attrs
 }
@@ -36,11 +384,14 @@ export function formatAttributes(attrs: Record<string, string>, exclude: string[
   const parts: string[] = []
   for (const [key, value] of Object.entries(attrs)) {
     if (exclude.includes(key)) continue
-    parts.push(value === '' ? key : `${key}="${value}"`)
+    parts.push(value === '' ? key : `${key}="${escapeAttributeValue(value)}"`)
   }
   return parts.length > 0 ? ` ${parts.join(' ')}` : ''
 }
 
+/**
+ * @deprecated Tag scanning uses the HTML tokenizer (`findHtmlElements`); kept for API compatibility.
+ */
 export function collectMatches(html: string, regex: RegExp): RegExpExecArray[] {
   const matches: RegExpExecArray[] = []
   let m
@@ -48,9 +399,45 @@ export function collectMatches(html: string, regex: RegExp): RegExpExecArray[] {
   return matches
 }
 
+/**
+ * Escape sequences that would end an inlined `<script>` element early
+ */
+export function escapeScriptContent(content: string): string {
+  return content.replace(/<\/(script)/gi, '<\\/$1')
+}
+
+export interface JsxTransformContext {
+  /** Module id: picks the parser and JSX runtime, and locates imported constants */
+  id?: string
+  /** Parser of the host bundler, tried before Babel */
+  parse?: (code: string) => unknown
+  /**
+   * Read a module imported by the file, to evaluate constants it exports.
+   * Defaults to reading relative imports from disk.
+   */
+  loadModule?: (specifier: string, importer: string) => { id: string; code: string } | null
+  /** Report a tag that cannot be inlined. Defaults to `console.warn` */
+  warn?: (diagnostic: InlineDiagnostic) => void
+  /** Report a failure with `strict`. Defaults to throwing */
+  error?: (diagnostic: InlineDiagnostic) => void
+  /** Bundler running the transform, passed on to `when` */
+  framework?: string
+}
+
+export interface JsxTransformResult {
+  code: string
+  map: SourceMap
+}
+
 /**
  * Transform JSX code by replacing `<script inline src>` and `<link inline rel="stylesheet" href>`
- * with import statements and `dangerouslySetInnerHTML` expressions.
+ * with import statements and elements that set the imported content (see `JsxOptions`).
+ *
+ * The code is parsed, so tags in strings and comments are left alone. `src`/`href`
+ * may be any value known at build time: literals, template literals, and `const`s
+ * declared in scope or imported from another module. Tags with other values are
+ * reported through `context.warn` and left external. `context` may also be just
+ * the module id.
  *
  * Returns `null` if no transformations were made.
  */
@@ -58,90 +445,251 @@ export function transformJsx(
   code: string,
   attr: string,
   queries: { raw: string; inline: string },
-): string | null {
+  options?: TransformOptions,
+  context: JsxTransformContext | string = {},
+): JsxTransformResult | null {
   if (!new RegExp(`<(?:script|link)\\b[^>]*\\b${attr}\\b`, 'i').test(code)) return null
+  if (typeof context === 'string') context = { id: context }
+  // Attribute names are matched case-insensitively, as in HTML
+  attr = attr.toLowerCase()
+  const formatAttr = `${attr}-format`
 
-  let result = code
-  const imports: string[] = []
-  let counter = 0
+  const runtime = options?.jsx?.runtime ?? detectJsxRuntime(code, context.id, options?.jsx?.importSource)
+  const emit = jsxEmitter(runtime)
+  const fail = (diagnostic: InlineDiagnostic) => reportFailure(diagnostic, options, context)
+  const mode = resolveMode(options)
+  const isAllowedAsset = createFilter(options?.assets)
+  const collectOptions = { id: context.id, parse: context.parse, loadModule: context.loadModule ?? loadRelativeModule }
+
+  // Optional peer dependencies: a missing one is an error, not a parse failure
+  const MagicString = loadMagicString()
+  loadBabelParser()
+
+  let tags: InlineTag[]
+  let importsAt: number | null = 0
+  try {
+    if (runtime === 'astro') ({ tags, importsAt } = collectAstroTags(code, attr, collectOptions))
+    else tags = collectJsxTags(code, attr, collectOptions)
+  } catch (e) {
+    fail({ message: `Could not parse: ${e instanceof Error ? e.message : e}`, file: context.id })
+    return null
+  }
+
+  const s = new MagicString(code)
+  const inlined: Array<{ tag: InlineTag; url: string; params: string; attributes: string }> = []
+
+  for (const tag of tags) {
+    const find = (name: string) => tag.attributes.find((attribute) => attribute.name === name)
+    const report = (name: string, reason: string) => {
+      fail({ message: `Cannot inline <${tag.name}>: \`${name}\` ${reason}`, file: context.id ?? '<jsx>', ...locate(code, tag.start) })
+    }
+    // Left external: only the plugin's own attributes go
+    const keepExternal = () => {
+      for (const attribute of tag.attributes) {
+        if (attribute.name !== attr && attribute.name !== formatAttr) continue
+        let start = attribute.start
+        while (/\s/.test(code[start - 1])) start--
+        s.remove(start, attribute.end)
+      }
+    }
 
-  // Process <script inline src="...">...</script> and self-closing <script inline src="..." />
-  const scriptRe = new RegExp(`<script\\b([^>]*)\\b${attr}\\b([^>]*)(?:\\/>|>([\\s\\S]*?)<\\/script>)`, 'gi')
-  result = result.replace(scriptRe, (match, before, after, _body) => {
-    const attrStr = before + attr + after
-    const attrs = parseAttributes(attrStr)
-    if (!(attr in attrs) || !('src' in attrs)) return match
+    const urlName = tag.name === 'script' ? 'src' : 'href'
+    const urlAttr = find(urlName)
+    if (!urlAttr) continue
+    if (tag.name === 'link') {
+      const rel = find('rel')?.value()
+      if (!rel) continue
+      if ('reason' in rel) {
+        report('rel', rel.reason)
+        keepExternal()
+        continue
+      }
+      if (rel.value !== 'stylesheet') continue
+    }
 
-    const varName = `__inline_${counter++}`
-    imports.push(`import ${varName} from '${attrs.src}${queries.raw}'`)
+    const url = urlAttr.value()
+    if ('reason' in url) {
+      report(urlName, url.reason)
+      keepExternal()
+      continue
+    }
 
-    const remaining = formatAttributes(attrs, [attr, 'src'])
-    return `<script${remaining} dangerouslySetInnerHTML={{__html: ${varName}}}></script>`
-  })
+    const inlineValue = find(attr)!.value()
+    if ('reason' in inlineValue) report(attr, inlineValue.reason)
+    const attrValue = 'value' in inlineValue ? inlineValue.value : undefined
+    const type = tag.name === 'script' ? 'js' : 'css'
+    const conditionContext: InlineConditionContext = { mode, framework: context.framework, file: context.id, path: url.value, type }
+    if (!isAllowedAsset(url.value) || !shouldInline(attrValue, conditionContext, options)) {
+      keepExternal()
+      continue
+    }
+
+    // Per-tag settings travel with the import as query parameters
+    let params = ''
+    const { maxSize, raw } = parseInlineValue(attrValue)
+    if (maxSize != null) params += `&maxSize=${maxSize}`
+    if (raw) params += '&raw'
+    const format = find(formatAttr)?.value()
+    if (format && 'value' in format && (format.value === 'esm' || format.value === 'iife')) params += `&format=${format.value}`
 
-  // Process <link inline rel="stylesheet" href="..." />
-  const linkRe = new RegExp(`<link\\b([^>]*)\\b${attr}\\b([^>]*?)\\/?>`, 'gi')
-  result = result.replace(linkRe, (match, before, after) => {
-    const attrStr = before + attr + after
-    const attrs = parseAttributes(attrStr)
-    if (!(attr in attrs) || attrs.rel !== 'stylesheet' || !('href' in attrs)) return match
+    const excluded = tag.name === 'script' ? [attr, formatAttr, 'src'] : [attr, 'rel', 'href']
+    const remaining = tag.attributes.filter((attribute) => !excluded.includes(attribute.name)).map((attribute) => attribute.raw)
+    if (options?.csp?.mode === 'nonce' && !find('nonce')) remaining.push(`nonce="${escapeAttributeValue(options.csp.nonce)}"`)
+    inlined.push({ tag, url: url.value, params, attributes: remaining.length > 0 ? ` ${remaining.join(' ')}` : '' })
+  }
 
-    const varName = `__inline_${counter++}`
-    imports.push(`import ${varName} from '${attrs.href}${queries.inline}'`)
+  // Scripts are numbered before stylesheets
+  inlined.sort((a, b) => Number(a.tag.name === 'link') - Number(b.tag.name === 'link') || a.tag.start - b.tag.start)
+  const imports: string[] = []
+  for (const [index, { tag, url, params, attributes }] of inlined.entries()) {
+    const varName = `__inline_${index}`
+    const query = tag.name === 'script' ? queries.raw : queries.inline
+    imports.push(`import ${varName} from '${`${url}${query}${params}`.replace(/[\\']/g, '\\$&')}'`)
+    s.overwrite(tag.start, tag.end, emit({ tag: tag.name === 'script' ? 'script' : 'style', attributes, content: varName }))
+  }
 
-    const remaining = formatAttributes(attrs, [attr, 'rel', 'href'])
-    return `<style${remaining} dangerouslySetInnerHTML={{__html: ${varName}}} />`
-  })
+  if (imports.length > 0) {
+    // Astro components take imports in their frontmatter
+    if (importsAt == null) s.prepend(`---\n${imports.join('\n')}\n---\n`)
+    else if (importsAt === 0) s.prepend(`${imports.join('\n')}\n`)
+    else s.appendLeft(importsAt, `${imports.join('\n')}\n`)
+  }
 
-  if (imports.length === 0) return null
-  return imports.join('\n') + '\n' + result
+  if (!s.hasChanged()) return null
+  return { code: s.toString(), map: s.generateMap({ source: context.id, hires: true, includeContent: true }) }
 }
 
 /**
  * Transform HTML by inlining external scripts and stylesheets
  * that have the `inline` attribute.
+ *
+ * `onInline` is called for every block that was inlined, `onSkip` for tags
+ * left external or not resolved. Relative URLs in
+ * inlined CSS are rebased to the page; `resolveAsset` (resolved like
+ * `resolveContent`) lets small assets be embedded instead. Tags whose
+ * conditions do not hold (see `mode` and `when`) only lose the attribute.
  */
 export async function transformHtml(
   html: string,
   resolveContent: ResolveContent,
   options?: TransformOptions,
+  onInline?: (asset: InlinedAsset) => void,
+  resolveAsset?: ResolveAsset,
+  page?: PageContext,
+  onSkip?: (asset: SkippedAsset) => void,
 ): Promise<string> {
-  const attr = options?.attribute ?? 'inline'
-  let result = html
+  const attr = (options?.attribute ?? 'inline').toLowerCase()
+  const mode = resolveMode(options)
+  const isAllowedAsset = createFilter(options?.assets)
+  const csp = options?.csp
+  const hashes: Record<CspDirective, string[]> = { 'script-src': [], 'style-src': [] }
+  const replacements: Array<{ start: number; end: number; content: string }> = []
+
+  function recordInline(type: 'js' | 'css', src: string, content: string) {
+    const hash = csp?.mode === 'hash' ? computeCspHash(content, csp.algorithm) : undefined
+    if (hash) hashes[cspDirectiveFor(type)].push(hash)
+    onInline?.({ type, src, content, hash })
+  }
+
+  // `minify` treats resolved content as written on disk
+  function minified(element: HtmlElement, type: 'js' | 'css', content: string): Promise<string> | string {
+    if (!options?.minify || parseInlineValue(element.attrs[attr]).raw) return content
+    return minifyContent(content, type, page?.minify)
+  }
+
+  // Keep the map reachable from the page once the content is inlined
+  function withSourceMap(type: 'js' | 'css', src: string, content: string): Promise<string> | string {
+    if (!options?.sourcemap) return content
+    return attachSourceMap(content, type, options.sourcemap, { path: src, sourceUrl: src }, resolveContent)
+  }
+
+  function isInlined(element: HtmlElement, path: string, type: 'js' | 'css'): boolean {
+    if (!isAllowedAsset(path)) return false
+    return shouldInline(element.attrs[attr], { mode, framework: page?.framework, file: page?.file, path, type }, options)
+  }
+
+  // Over budget, not wanted or not found: keep the tag, only drop the inline attribute
+  function keepExternal(element: HtmlElement) {
+    const attrStr = formatElementAttributes(element, element.attrs, [attr])
+    const close = element.name === 'link' ? ' />' : '>'
+    replacements.push({ start: element.start, end: element.tagEnd, content: `<${element.name}${attrStr}${close}` })
+  }
+
+  for (const element of findHtmlElements(html, ['script', 'link'])) {
+    const { attrs } = element
+    if (!(attr in attrs)) continue
+
+    // <script inline src="...">...</script>
+    if (element.name === 'script') {
+      if (!('src' in attrs)) continue
+      if (!isInlined(element, attrs.src, 'js')) {
+        keepExternal(element)
+        continue
+      }
 
-  // Process <script inline src="...">...</script>
-  const scriptMatches = collectMatches(result, /<script\b([^>]*)>([\s\S]*?)<\/script>/gi)
+      const resolved = await resolveContent(attrs.src)
+      if (resolved == null) {
+        reportFailure({ message: `Could not resolve: ${attrs.src}`, file: page?.file, ...locate(html, element.start) }, options, page)
+        onSkip?.({ type: 'js', src: attrs.src, status: 'failed' })
+        keepExternal(element)
+        continue
+      }
+      const content = await applyTransformContent(await minified(element, 'js', resolved), { type: 'js', filePath: attrs.src, host: page?.file, framework: page?.framework }, options)
 
-  for (const match of scriptMatches.reverse()) {
-    const attrs = parseAttributes(match[1])
-    if (!(attr in attrs) || !('src' in attrs)) continue
+      const location = { file: page?.file, ...locate(html, element.start) }
+      if (!checkInlineBudget(content, attrs.src, resolveMaxSize(attrs[attr], options), options, page, location)) {
+        onSkip?.({ type: 'js', src: attrs.src, status: 'external', content })
+        keepExternal(element)
+        continue
+      }
 
-    const content = await resolveContent(attrs.src)
-    if (content == null) {
-      console.warn(`[unplugin-inline-source] Could not resolve: ${attrs.src}`)
+      const attrStr = formatElementAttributes(element, withCspNonce(attrs, csp), [attr, 'src'])
+      const escaped = escapeScriptContent(await withSourceMap('js', attrs.src, content))
+      recordInline('js', attrs.src, escaped)
+      replacements.push({ start: element.start, end: element.end, content: `<script${attrStr}>${escaped}</script>` })
       continue
     }
 
-    const attrStr = formatAttributes(attrs, [attr, 'src'])
-    const escaped = content.replace(/<\/script>/gi, '<\\/script>')
-    result = result.slice(0, match.index) + `<script${attrStr}>${escaped}</script>` + result.slice(match.index + match[0].length)
-  }
+    // <link inline rel="stylesheet" href="...">
+    if (attrs.rel !== 'stylesheet' || !('href' in attrs)) continue
+    if (!isInlined(element, attrs.href, 'css')) {
+      keepExternal(element)
+      continue
+    }
 
-  // Process <link inline rel="stylesheet" href="...">
-  const linkMatches = collectMatches(result, /<link\b([^>]*?)\/?\s*>/gi)
+    const source = await resolveContent(attrs.href)
+    if (source == null) {
+      reportFailure({ message: `Could not resolve: ${attrs.href}`, file: page?.file, ...locate(html, element.start) }, options, page)
+      onSkip?.({ type: 'css', src: attrs.href, status: 'failed' })
+      keepExternal(element)
+      continue
+    }
 
-  for (const match of linkMatches.reverse()) {
-    const attrs = parseAttributes(match[1])
-    if (!(attr in attrs) || attrs.rel !== 'stylesheet' || !('href' in attrs)) continue
+    // URLs in the stylesheet were relative to its href, not to the page
+    const href = attrs.href
+    const rebased = await rebaseCssUrls(source, (url) => joinCssUrl(href, url), {
+      inlineLimit: parseSize(options?.cssAssetsInlineLimit),
+      readAsset: resolveAsset && ((url) => resolveAsset(joinCssUrl(href, url))),
+    })
+    const content = await applyTransformContent(await minified(element, 'css', rebased), { type: 'css', filePath: href, host: page?.file, framework: page?.framework }, options)
 
-    const content = await resolveContent(attrs.href)
-    if (content == null) {
-      console.warn(`[unplugin-inline-source] Could not resolve: ${attrs.href}`)
+    const location = { file: page?.file, ...locate(html, element.start) }
+    if (!checkInlineBudget(content, attrs.href, resolveMaxSize(attrs[attr], options), options, page, location)) {
+      onSkip?.({ type: 'css', src: attrs.href, status: 'external', content })
+      keepExternal(element)
       continue
     }
 
-    const attrStr = formatAttributes(attrs, [attr, 'rel', 'href'])
-    result = result.slice(0, match.index) + `<style${attrStr}>${content}</style>` + result.slice(match.index + match[0].length)
+    const attrStr = formatElementAttributes(element, withCspNonce(attrs, csp), [attr, 'rel', 'href'])
+    const styles = await withSourceMap('css', attrs.href, content)
+    recordInline('css', attrs.href, styles)
+    replacements.push({ start: element.start, end: element.end, content: `<style${attrStr}>${styles}</style>` })
+  }
+
+  let result = replaceRanges(html, replacements)
+
+  if (csp?.mode === 'hash' && csp.meta !== false) {
+    result = mergeCspMeta(result, hashes)
   }
 
   return result
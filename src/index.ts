@@ -1,23 +1,90 @@
-import { createUnplugin } from 'unplugin'
+import { createUnplugin, type NativeBuildContext } from 'unplugin'
 import { readFile } from 'node:fs/promises'
-import { resolve, dirname } from 'node:path'
-import type { TransformOptions, InlineEntry } from './core'
+import { resolve, dirname, relative, basename, posix } from 'node:path'
+import { transformJsx, type TransformOptions, type InlineEntry, type InlineFormat, type InlineDiagnostic } from './core'
 import {
   INLINE_QUERY,
   CSS_LOADER_PREFIX,
   BUILD_PREFIX,
+  EXCLUDED_ID,
   resolveInlinePath,
   getInlineFileType,
+  parseInlineRequest,
+  parseInlineImport,
+  resolvePublicQuery,
+  formatInlineRequest,
+  entryFromRequest,
+  entriesInOutput,
+  inlineMarker,
   replaceInlineMarkersInBundle,
 } from './internal/inline-utils'
 import {
   inlineHtmlAssets,
   replaceMarkerInText,
   createWebpackLikeHandler,
+  webpackMode,
 } from './internal/bundler-helpers'
 import { createViteHtmlHandlers } from './internal/vite-handlers'
-
-export { transformHtml, transformJsx, type TransformOptions, type ResolveContent, type InlineEntry } from './core'
+import {
+  buildWithBun,
+  buildWithEsbuild,
+  buildWithFarm,
+  buildWithRollup,
+  type FarmCompilerCache,
+  type EsbuildApi,
+  type EsbuildBuildOptions,
+  type RollupLikeBundleFn,
+} from './internal/inline-builders'
+import { createCspCollector, type CspCollector } from './internal/csp'
+import { checkInlineBudget, externalFileName, externalReference, parseSize, resolveMaxSize } from './internal/budget'
+import { flattenCssImports } from './internal/css-imports'
+import { createFilter } from './internal/filter'
+import { applyTransformContent } from './internal/transform-content'
+import { bunMinifier, esbuildMinifier, minifyContent } from './internal/minify'
+import { createBuildCache } from './internal/build-cache'
+import { createMarkerScopes, DEFAULT_SCOPE } from './internal/marker-scopes'
+import { createReportCollector, type ReportCollector } from './internal/report'
+import {
+  excludedImport,
+  inlineFailure,
+  reportFailure,
+  reportWarning,
+  toEsbuildMessage,
+  toUnpluginMessage,
+  type DiagnosticChannels,
+} from './internal/diagnostics'
+import { readTsconfigImportSource } from './internal/jsx-runtime'
+import { assetFileName, cssUrlPath, rebaseCssUrls, rebaseSourceCss } from './internal/css-urls'
+import { attachGeneratedSourceMap, attachSourceMap, sourceUrlFor } from './internal/sourcemap'
+
+export {
+  transformHtml,
+  transformJsx,
+  type TransformOptions,
+  type CspOptions,
+  type InlineFormat,
+  type JsxRuntime,
+  type JsxEmitter,
+  type JsxOptions,
+  type JsxTransformContext,
+  type JsxTransformResult,
+  type SourcemapMode,
+  type ResolveContent,
+  type ResolveAsset,
+  type InlineEntry,
+  type InlinedAsset,
+  type SkippedAsset,
+  type ReportOptions,
+  type InlineReportEntry,
+  type InlineVia,
+  type InlineDiagnostic,
+  type InlineConditionContext,
+  type TransformContentContext,
+  type Minifier,
+  type FilterOptions,
+  type FilterPattern,
+  type PageContext,
+} from './core'
 
 const PLUGIN_NAME = 'unplugin-inline-source'
 const QUERY = INLINE_QUERY
@@ -27,24 +94,71 @@ const MARKER_FRAMEWORKS = new Set(['vite', 'rollup', 'rolldown', 'webpack', 'esb
 
 export const unplugin = createUnplugin<TransformOptions | undefined>((options, meta) => {
   const attr = options?.attribute ?? 'inline'
+  // Markers are stable across rebuilds; output hooks only handle those in their output
   const inlineRegistry = new Map<string, InlineEntry>()
-  let markerCounter = 0
+  const markerScopes = createMarkerScopes(inlineRegistry)
   const useMarkers = MARKER_FRAMEWORKS.has(meta.framework)
+  const publicQuery = resolvePublicQuery(options)
+  const farmCompilers: FarmCompilerCache = new Map()
+  // Files each inline entry was last built or read from, watched when its marker loads
+  const inlineDependencies = new Map<string, string[]>()
+  // Built inline entries, reused while their sources are unchanged
+  const buildCache = createBuildCache(options)
+  // Rollup/Rolldown: parent build plugins, reused by the nested builds of inline scripts
+  let rollupPlugins: Array<{ name?: string }> = []
+  let tsconfigImportSource: Promise<string | undefined> | undefined
+  // Vite/webpack mode, checked by attribute conditions unless `mode` is set
+  let bundlerMode: string | undefined
+  const isAllowedAsset = createFilter(options?.assets)
+  const isJsxIncluded = createFilter({
+    include: options?.jsx?.include,
+    exclude: options?.jsx?.exclude ?? /\/node_modules\//,
+  })
+
+  function withBundlerMode(): TransformOptions {
+    return { ...options, mode: options?.mode ?? bundlerMode }
+  }
 
-  function registerMarker(filePath: string, type: 'js' | 'css'): string {
-    const marker = `__INLINE_BUILD_${markerCounter++}__`
-    inlineRegistry.set(marker, { filePath, type })
+  function registerMarker(filePath: string, type: 'js' | 'css', fields?: Partial<InlineEntry>, scope = DEFAULT_SCOPE): string {
+    const marker = inlineMarker(filePath, type, fields)
+    inlineRegistry.set(marker, { ...fields, filePath, type })
+    markerScopes.claim(scope, marker)
     return marker
   }
 
+  // Once a build's output is done: forget entries no build uses any more
+  function pruneMarkers(used: Iterable<string>) {
+    for (const file of markerScopes.prune(DEFAULT_SCOPE, used)) inlineDependencies.delete(file)
+  }
+
   function resolvePath(filePath: string, importer: string | undefined): string {
     return resolveInlinePath(filePath, importer)
   }
 
+  type DiagnosticContext = { warn: (log: PluginLog) => void; error: (log: PluginLog) => void }
+
+  // Imports of files the `assets` option excludes load as an empty string
+  function excludeImport(ctx: DiagnosticContext, path: string, importer: string | undefined): string {
+    reportFailure(excludedImport(path, importer), options, {
+      warn: (diagnostic) => ctx.warn(toUnpluginMessage(diagnostic)),
+      error: (diagnostic) => ctx.error(toUnpluginMessage(diagnostic)),
+    })
+    return EXCLUDED_ID
+  }
+
+  type PluginLog = string | ReturnType<typeof toUnpluginMessage>
+
   /** Shared generateBundle logic for Rollup-compatible bundlers */
   type RollupPluginContext = {
-    emitFile: (file: { type: 'chunk'; id: string }) => string
+    emitFile: (
+      file:
+        | { type: 'chunk'; id: string }
+        | { type: 'asset'; fileName?: string; name?: string; source: string | Uint8Array }
+    ) => string
     getFileName: (refId: string) => string
+    addWatchFile: (file: string) => void
+    warn: (log: PluginLog) => void
+    error: (log: PluginLog) => void
   }
 
   type RollupBundle = Record<string, import('./internal/inline-utils').RollupOutput>
@@ -59,22 +173,53 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
     outputFiles?: EsbuildOutputFile[]
   }
 
+  type EsbuildMessage = ReturnType<typeof toEsbuildMessage>
+
+  type EsbuildBuild = {
+    initialOptions?: EsbuildBuildOptions & { outdir?: string; outfile?: string; publicPath?: string }
+    esbuild?: EsbuildApi
+    onEnd: (
+      callback: (result: EsbuildResult) => Promise<{ errors: EsbuildMessage[]; warnings: EsbuildMessage[] } | void>,
+    ) => void
+  }
+
   async function rollupGenerateBundle(
     ctx: RollupPluginContext,
     bundle: RollupBundle,
   ) {
-    await replaceInlineMarkersInBundle(
-      bundle,
-      inlineRegistry,
-      (refId) => ctx.getFileName(refId),
-      async (filePath) => {
+    const cspCollector = createCspCollector(options?.csp)
+    const report = createReportCollector(options?.report)
+    const channels: DiagnosticChannels = {
+      warn: (diagnostic) => ctx.warn(toUnpluginMessage(diagnostic)),
+      error: (diagnostic) => ctx.error(toUnpluginMessage(diagnostic)),
+    }
+
+    const handled = await replaceInlineMarkersInBundle(bundle, inlineRegistry, {
+      getFileName: (refId) => ctx.getFileName(refId),
+      readFile: async (filePath) => {
         try {
           return await readFile(filePath, 'utf-8')
         } catch {
           return null
         }
       },
-    )
+      emitAsset: (entry, content) => ctx.getFileName(
+        ctx.emitFile({ type: 'asset', name: basename(entry.filePath), source: content }),
+      ),
+      emitReferencedAsset: (filePath, source) => ctx.getFileName(
+        ctx.emitFile({ type: 'asset', name: basename(filePath), source }),
+      ),
+      emitSourceMap: (fileName, source) => {
+        ctx.emitFile({ type: 'asset', fileName, source })
+      },
+      buildEntry: (entry) => buildWithRollupLike(entry, channels),
+      onReadFiles: (filePath, files) => inlineDependencies.set(filePath, files),
+      framework: meta.framework,
+      transformOptions: options,
+      onReplace: (host, entry, content) => cspCollector.add(host, entry.type, content),
+      report,
+      ...channels,
+    })
 
     // HTML inlining using shared helper
     const htmlAssets: Array<{ name: string; content: string }> = []
@@ -89,13 +234,24 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
       (normalized) => {
         for (const [name, chunk] of Object.entries(bundle)) {
           if (name === normalized || name.endsWith(normalized)) {
-            if (chunk.type === 'chunk') return chunk.code
+            // Chunk maps are only referenced once written; point at the map file
+            if (chunk.type === 'chunk') {
+              return options?.sourcemap && chunk.map ? `${chunk.code}\n//# sourceMappingURL=${basename(name)}.map` : chunk.code
+            }
             if (chunk.type === 'asset' && typeof chunk.source === 'string') return chunk.source
           }
+          if (`${name}.map` === normalized && chunk.type === 'chunk' && chunk.map) return chunk.map.toString()
         }
         return null
       },
-      options,
+      withBundlerMode(),
+      (host, inlined) => cspCollector.add(host, inlined.type, inlined.content, inlined.hash),
+      (normalized) => {
+        const asset = bundle[normalized]
+        if (asset?.type !== 'asset') return null
+        return typeof asset.source === 'string' ? Buffer.from(asset.source) : asset.source
+      },
+      { framework: meta.framework, report, ...channels },
     )
 
     // Update bundle with transformed HTML
@@ -105,6 +261,224 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
         asset.source = content
       }
     }
+
+    for (const manifest of [cspCollector.emit(), report.emit()]) {
+      if (manifest) ctx.emitFile({ type: 'asset', ...manifest })
+    }
+    pruneMarkers(handled)
+  }
+
+  function esbuildOutdir(build: EsbuildBuild): string {
+    const { outdir, outfile } = build.initialOptions ?? {}
+    return resolve(outdir ?? (outfile ? dirname(outfile) : process.cwd()))
+  }
+
+  function esbuildPublicPath(build: EsbuildBuild): string {
+    const publicPath = build.initialOptions?.publicPath || '/'
+    return publicPath.endsWith('/') ? publicPath : `${publicPath}/`
+  }
+
+  /** Point the URLs of nested-build CSS at its assets, adding those to esbuild's output files */
+  function rebaseEsbuildCss(
+    build: EsbuildBuild,
+    result: EsbuildResult,
+    css: string,
+    assets: Array<{ name: string; contents: Uint8Array }>,
+  ): Promise<string> {
+    const files = new Map(assets.map((asset) => [asset.name, asset.contents]))
+    const added = new Set<string>()
+    return rebaseCssUrls(css, (url) => {
+      const name = posix.normalize(cssUrlPath(url))
+      const contents = files.get(name)
+      if (!contents) return null
+      if (!added.has(name)) {
+        added.add(name)
+        result.outputFiles?.push({
+          path: resolve(esbuildOutdir(build), name),
+          contents,
+          get text() {
+            return Buffer.from(contents).toString('utf-8')
+          },
+        })
+      }
+      return `${esbuildPublicPath(build)}${name}${url.slice(cssUrlPath(url).length)}`
+    }, {
+      inlineLimit: parseSize(options?.cssAssetsInlineLimit),
+      readAsset: async (url) => files.get(posix.normalize(url)) ?? null,
+    })
+  }
+
+  /** Add a file referenced by a stylesheet read from disk to esbuild's output files */
+  function emitEsbuildAsset(build: EsbuildBuild, result: EsbuildResult, filePath: string, contents: Uint8Array): string {
+    const fileName = assetFileName(filePath, contents)
+    const path = resolve(esbuildOutdir(build), fileName)
+    if (!result.outputFiles?.some((file) => file.path === path)) {
+      result.outputFiles?.push({
+        path,
+        contents,
+        get text() {
+          return Buffer.from(contents).toString('utf-8')
+        },
+      })
+    }
+    return fileName
+  }
+
+  /** Add the CSP manifest and inline report to esbuild's in-memory output files, keyed by output path */
+  function emitEsbuildManifests(
+    build: EsbuildBuild,
+    result: EsbuildResult,
+    cspCollector: CspCollector,
+    report: ReportCollector,
+  ) {
+    if (!result.outputFiles) return
+
+    // Hosts are absolute output paths; key the manifests relative to the output directory
+    const absOutdir = esbuildOutdir(build)
+    const hostName = (host: string) => relative(absOutdir, host)
+    for (const manifest of [cspCollector.emit(hostName), report.emit(hostName)]) {
+      if (!manifest) continue
+      const text = manifest.source
+      result.outputFiles.push({
+        path: resolve(absOutdir, manifest.fileName),
+        text,
+        contents: new TextEncoder().encode(text),
+      })
+    }
+  }
+
+  function readFailure(filePath: string, e: unknown): InlineDiagnostic {
+    return { message: `Failed to read: ${e instanceof Error ? e.message : String(e)}`, file: filePath }
+  }
+
+  async function loadRawFile(filePath: string, channels: DiagnosticChannels): Promise<string | null> {
+    try {
+      return await readFile(filePath, 'utf-8')
+    } catch (e) {
+      reportWarning(readFailure(filePath, e), channels)
+      return null
+    }
+  }
+
+  /** Read a stylesheet with its local `@import` chain inlined, watching every file in it */
+  async function loadFlattenedCss(
+    filePath: string,
+    channels: DiagnosticChannels,
+    addWatchFile?: (file: string) => void,
+  ): Promise<string | null> {
+    try {
+      const { css, files } = await flattenCssImports(filePath, (message) => reportWarning({ message, file: filePath }, channels))
+      for (const file of files) addWatchFile?.(file)
+      return css
+    } catch (e) {
+      reportWarning(readFailure(filePath, e), channels)
+      return null
+    }
+  }
+
+  /**
+   * Public path of files emitted from Bun and Farm `load`, written next to the
+   * build output; `null` where they would be dropped (Bun without `outdir`)
+   */
+  function emittedFilesPublicPath(native: NativeBuildContext | undefined): string | null {
+    if (native?.framework === 'farm') return '/'
+    if (native?.framework !== 'bun' || !native.build.config?.outdir) return null
+    const publicPath = native.build.config.publicPath || '/'
+    return publicPath.endsWith('/') ? publicPath : `${publicPath}/`
+  }
+
+  // A missing map file only leaves the map out
+  function readMapFile(filePath: string): Promise<string | null> {
+    return readFile(filePath, 'utf-8').catch(() => null)
+  }
+
+  async function loadWithBun(
+    filePath: string,
+    format: InlineFormat | undefined,
+    addWatchFile: (file: string) => void,
+    channels: DiagnosticChannels,
+  ): Promise<string | null> {
+    const overrides = {
+      ...(options?.sourcemap ? { sourcemap: 'inline' } : {}),
+      ...(format ? { format } : {}),
+      ...options?.build?.bun,
+    }
+    const cacheKey = ['bun', filePath, overrides]
+    const cached = await buildCache.get(cacheKey)
+    if (cached) {
+      for (const file of cached.files) addWatchFile(file)
+      return cached.content
+    }
+
+    const { content, warnings, files } = await buildWithBun(filePath, getInlineFileType(filePath), overrides)
+    for (const warning of warnings) reportWarning({ message: warning, file: filePath }, channels)
+    for (const file of files ?? []) addWatchFile(file)
+    if (content != null && files) await buildCache.set(cacheKey, { content, files })
+    return content
+  }
+
+  async function loadWithFarm(
+    filePath: string,
+    warn: (message: string) => void,
+    addWatchFile: (file: string) => void,
+  ): Promise<string | null> {
+    const cacheKey = ['farm', filePath, options?.build?.farm ?? null]
+    const cached = await buildCache.get(cacheKey)
+    if (cached) {
+      for (const file of cached.files) addWatchFile(file)
+      return cached.content
+    }
+
+    const { content, warnings, files } = await buildWithFarm(
+      filePath,
+      getInlineFileType(filePath),
+      options?.build?.farm,
+      farmCompilers,
+    )
+    // Reported through the load context, which Farm routes to its logger
+    for (const warning of warnings) {
+      warn(`[${PLUGIN_NAME}] ${filePath}: ${warning}`)
+    }
+    for (const file of files ?? []) addWatchFile(file)
+    if (content != null && files) await buildCache.set(cacheKey, { content, files })
+    return content
+  }
+
+  type TransformContext = {
+    warn: (log: PluginLog) => void
+    error: (log: PluginLog) => void
+    parse?: (code: string, options?: Record<string, unknown>) => unknown
+    meta?: { rollupVersion?: string; rolldownVersion?: string }
+  }
+
+  // Rolldown's parser handles TSX; Rollup's (also used by Vite) only plain JSX
+  function hostParser(ctx: TransformContext, id: string) {
+    const parse = ctx.parse
+    if (typeof parse !== 'function') return undefined
+    const rolldown = meta.framework === 'rolldown' || !!ctx.meta?.rolldownVersion
+    if (!rolldown && !((meta.framework === 'rollup' || meta.framework === 'vite') && /\.jsx$/.test(id))) return undefined
+    const lang = /\.tsx$/.test(id) ? 'tsx' : 'jsx'
+    return (code: string) => parse.call(ctx, code, { jsx: true, lang })
+  }
+
+  // JSX modules and Astro components; the runtime is detected per file. Vue
+  // components written in JSX come as script blocks: `App.vue?vue&type=script&lang.tsx`
+  function isJsxModule(id: string): boolean {
+    return /\.(?:[jt]sx|astro)$/.test(id) && isJsxIncluded(id)
+  }
+
+  async function transformJsxModule(ctx: TransformContext, code: string, id: string) {
+    if (!isJsxModule(id)) return
+    const jsx = options?.jsx?.runtime || options?.jsx?.importSource
+      ? options.jsx
+      : { importSource: await (tsconfigImportSource ??= readTsconfigImportSource()) }
+    return transformJsx(code, attr, { raw: QUERY, inline: QUERY }, { ...withBundlerMode(), jsx }, {
+      id,
+      parse: hostParser(ctx, id),
+      warn: (diagnostic) => ctx.warn(toUnpluginMessage(diagnostic)),
+      error: (diagnostic) => ctx.error(toUnpluginMessage(diagnostic)),
+      framework: meta.framework,
+    })
   }
 
   /** Shared resolveId for Rollup-compatible bundlers (Rollup/Rolldown) */
@@ -112,34 +486,76 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
     // CSS loader virtual module (emitted by us)
     if (source.startsWith(CSS_LOADER_PREFIX)) return source
 
-    if (!source.endsWith(QUERY)) return null
-    const filePath = source.slice(0, -QUERY.length)
-    const resolved = resolvePath(filePath, importer)
+    const request = parseInlineImport(source, publicQuery)
+    if (!request) return null
+    if (!isAllowedAsset(request.filePath)) return excludeImport(ctx, request.filePath, importer)
+    const resolved = resolvePath(request.filePath, importer)
     const type = getInlineFileType(resolved)
-    const marker = registerMarker(resolved, type)
-    const entry = inlineRegistry.get(marker)!
-    if (type === 'js') {
-      entry.refId = ctx.emitFile({ type: 'chunk', id: resolved })
-    } else {
-      entry.refId = ctx.emitFile({ type: 'chunk', id: `${CSS_LOADER_PREFIX}${marker}` })
+    const marker = registerMarker(resolved, type, { ...entryFromRequest(request), importer })
+    // Scripts get their own nested build in generateBundle
+    if (type === 'css') {
+      inlineRegistry.get(marker)!.refId = ctx.emitFile({ type: 'chunk', id: `${CSS_LOADER_PREFIX}${marker}` })
     }
     return `${BUILD_PREFIX}${marker}`
   }
 
+  /** Shared options hook: remember the parent plugins (possibly nested arrays) */
+  function rollupOptions(inputOptions: { plugins?: unknown }) {
+    const plugins = [inputOptions.plugins].flat(Infinity)
+    rollupPlugins = plugins.filter((plugin): plugin is { name?: string } => !!plugin && typeof plugin === 'object')
+    return null
+  }
+
+  async function buildWithRollupLike(entry: InlineEntry, channels: DiagnosticChannels) {
+    const moduleId = meta.framework === 'rolldown' ? 'rolldown' : 'rollup'
+    const mod: Record<string, unknown> = await import(moduleId)
+    const built = await buildWithRollup(
+      mod[moduleId] as RollupLikeBundleFn,
+      entry.filePath,
+      entry.format ?? 'iife',
+      rollupPlugins,
+      PLUGIN_NAME,
+      !!options?.sourcemap,
+    )
+    // A failed build's last message is its error, reported as the failure reason
+    for (const warning of built.content == null ? built.warnings.slice(0, -1) : built.warnings) {
+      reportWarning({ message: warning, file: entry.filePath }, channels)
+    }
+    if (built.files) inlineDependencies.set(entry.filePath, built.files)
+    return built
+  }
+
   /** Shared load for Rollup-compatible bundlers */
-  function rollupLoad(id: string) {
+  function rollupLoad(ctx: WatchContext, id: string) {
     if (id.startsWith(CSS_LOADER_PREFIX)) {
       const marker = id.slice(CSS_LOADER_PREFIX.length)
       const entry = inlineRegistry.get(marker)
       if (entry) return `import ${JSON.stringify(entry.filePath)}`
       return null
     }
+    if (id === EXCLUDED_ID) return `export default ""`
     if (!id.startsWith(BUILD_PREFIX)) return null
     const marker = id.slice(BUILD_PREFIX.length)
+    markerScopes.claim(DEFAULT_SCOPE, marker)
+    watchInlineEntry(ctx, inlineRegistry.get(marker))
     return `export default "${marker}"`
   }
 
-  const viteHtml = createViteHtmlHandlers(attr, options, inlineRegistry, registerMarker)
+  type WatchContext = { addWatchFile: (file: string) => void }
+
+  /**
+   * Watch an entry's source and, once it has been built, the files the build
+   * read. Inline builds run in the output phase, where files can no longer be
+   * watched, so their dependencies are picked up from the next rebuild on.
+   */
+  function watchInlineEntry(ctx: WatchContext, entry: InlineEntry | undefined) {
+    if (!entry) return
+    for (const file of new Set([entry.filePath, ...inlineDependencies.get(entry.filePath) ?? []])) {
+      ctx.addWatchFile(file)
+    }
+  }
+
+  const viteHtml = createViteHtmlHandlers(attr, options, inlineRegistry, registerMarker, markerScopes)
 
   return {
     name: PLUGIN_NAME,
@@ -151,48 +567,114 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
     // For bundlers without output hooks (Farm/Bun):
     //   resolveId → resolved path with query, load → bundled content
 
+    // Keeps webpack/rspack from running the loader on every other module
+    transformInclude(id: string) {
+      return isJsxModule(id)
+    },
+
     transform(code: string, id: string) {
-      if (!/\.[jt]sx$/.test(id)) return
-      return transformJsx(code, attr, { raw: QUERY, inline: QUERY })
+      return transformJsxModule(this, code, id)
+    },
+
+    buildStart() {
+      markerScopes.start(DEFAULT_SCOPE)
     },
 
     resolveId(source: string, importer: string | undefined) {
-      if (!source.endsWith(QUERY)) return null
-      const filePath = source.slice(0, -QUERY.length)
-      const resolved = resolvePath(filePath, importer)
+      const request = parseInlineImport(source, publicQuery)
+      if (!request) return null
+      if (!isAllowedAsset(request.filePath)) return excludeImport(this, request.filePath, importer)
+      const resolved = resolvePath(request.filePath, importer)
 
       if (useMarkers) {
-        const marker = registerMarker(resolved, getInlineFileType(resolved))
+        const marker = registerMarker(resolved, getInlineFileType(resolved), { ...entryFromRequest(request), importer })
         return `${BUILD_PREFIX}${marker}`
       }
 
       // Fallback: pass through resolved path with query
-      return `${resolved}${QUERY}`
+      return formatInlineRequest(resolved, Object.fromEntries(request.params))
     },
 
     async load(id: string) {
+      if (id === EXCLUDED_ID) return `export default ""`
+
       // Marker placeholder (for bundlers with output hooks)
       if (id.startsWith(BUILD_PREFIX)) {
         const marker = id.slice(BUILD_PREFIX.length)
+        const entry = inlineRegistry.get(marker)
+        markerScopes.claim(DEFAULT_SCOPE, marker)
+        watchInlineEntry(this, entry)
+        // esbuild reads stylesheets itself in onEnd; watch their import chain from here
+        if (meta.framework === 'esbuild' && entry?.type === 'css') {
+          // Problems are reported once the stylesheet is inlined
+          const flattened = await flattenCssImports(entry.filePath, () => {}).catch(() => null)
+          for (const file of flattened?.files ?? []) this.addWatchFile(file)
+        }
         return `export default "${marker}"`
       }
 
-      // Direct file content (for bundlers without output hooks: Bun, Farm)
-      // NOTE: Bun and Farm plugin APIs don't support emitting chunks like Rollup.
-      // - Bun.build() causes recursive build loops when used in plugin context
-      // - Farm requires importing @farmfe/core module
-      // To maintain unplugin's abstraction and avoid these issues,
-      // we read raw files directly. Users needing transpilation should use
-      // Vite/Rollup/Webpack/Rspack which have richer plugin APIs.
-      if (id.endsWith(QUERY)) {
-        const filePath = id.slice(0, -QUERY.length)
-        try {
-          const content = await readFile(filePath, 'utf-8')
-          return `export default ${JSON.stringify(content)}`
-        } catch (e) {
-          console.warn(`[${PLUGIN_NAME}] Failed to read ${filePath}:`, e)
+      // Built file content (for bundlers without output hooks: Bun, Farm)
+      // - Bun builds the entry in a separate Bun process (see buildWithBun)
+      // - Farm compiles the entry with its own compiler (see buildWithFarm)
+      const request = parseInlineRequest(id)
+      if (request) {
+        const { filePath } = request
+        const type = getInlineFileType(filePath)
+        const addWatchFile = (file: string) => this.addWatchFile(file)
+        const channels: DiagnosticChannels = {
+          warn: (diagnostic) => this.warn(toUnpluginMessage(diagnostic)),
+          error: (diagnostic) => this.error(toUnpluginMessage(diagnostic)),
+        }
+        addWatchFile(filePath)
+        let content = meta.framework === 'bun'
+          ? await loadWithBun(filePath, entryFromRequest(request).format, addWatchFile, channels)
+          : meta.framework === 'farm'
+            ? await loadWithFarm(filePath, (message) => this.warn(message), addWatchFile)
+            : null
+        const built = content != null
+        // Without a built stylesheet, its local @imports are flattened into it
+        if (content == null && type === 'css') content = await loadFlattenedCss(filePath, channels, addWatchFile)
+        else if (content == null && meta.framework !== 'bun' && meta.framework !== 'farm') content = await loadRawFile(filePath, channels)
+        if (content == null) {
+          reportFailure({ message: `Could not inline ${sourceUrlFor(filePath)}`, file: filePath }, options, channels)
           return `export default ""`
         }
+        const publicPath = emittedFilesPublicPath(this.getNativeBuildContext?.())
+        if (type === 'css') {
+          content = await rebaseSourceCss(content, filePath, {
+            publicPath: publicPath ?? undefined,
+            inlineLimit: parseSize(options?.cssAssetsInlineLimit),
+            emitAsset: publicPath != null
+              ? (assetPath, source) => {
+                  const fileName = assetFileName(assetPath, source)
+                  this.emitFile({ type: 'asset', fileName, source })
+                  return fileName
+                }
+              : undefined,
+          })
+        }
+        if (!built && options?.minify && !entryFromRequest(request).raw) {
+          content = await minifyContent(content, type, meta.framework === 'bun' ? bunMinifier() : undefined)
+        }
+        content = await applyTransformContent(content, { type, filePath, framework: meta.framework }, options)
+
+        // Over budget: emit the content as its own file and reference it, where files can be emitted
+        const maxSize = entryFromRequest(request).maxSize ?? resolveMaxSize(undefined, options)
+        if (!checkInlineBudget(content, filePath, maxSize, options, channels, { file: filePath }, publicPath != null)) {
+          const fileName = externalFileName({ filePath, type }, content)
+          this.emitFile({ type: 'asset', fileName, source: content })
+          return `export default ${JSON.stringify(externalReference(type, `${publicPath}${fileName}`, entryFromRequest(request).format))}`
+        }
+        if (!options?.sourcemap) return `export default ${JSON.stringify(content)}`
+
+        const withMap = await attachSourceMap(
+          content,
+          type,
+          options.sourcemap,
+          { path: filePath, sourceUrl: sourceUrlFor(filePath) },
+          readMapFile,
+        )
+        return `export default ${JSON.stringify(withMap)}`
       }
 
       return null
@@ -203,21 +685,28 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
     vite: {
       enforce: 'pre',
 
-      transform(code: string, id: string) {
-        if (!/\.[jt]sx$/.test(id)) return
-        return transformJsx(code, attr, { raw: QUERY, inline: QUERY })
+      transform(this: TransformContext, code: string, id: string) {
+        return transformJsxModule(this, code, id)
       },
 
       ...viteHtml,
+
+      configResolved(config: Parameters<typeof viteHtml.configResolved>[0]) {
+        bundlerMode = config.mode
+        viteHtml.configResolved(config)
+      },
     },
 
     // ── Rollup ──
 
     rollup: {
+      options: rollupOptions,
       resolveId(this: RollupPluginContext, source: string, importer: string | undefined) {
         return rollupResolveId(this, source, importer)
       },
-      load: rollupLoad,
+      load(this: RollupPluginContext, id: string) {
+        return rollupLoad(this, id)
+      },
       async generateBundle(this: RollupPluginContext, _: unknown, bundle: RollupBundle) {
         await rollupGenerateBundle(this, bundle)
       },
@@ -226,10 +715,13 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
     // ── Rolldown ──
 
     rolldown: {
+      options: rollupOptions,
       resolveId(this: RollupPluginContext, source: string, importer: string | undefined) {
         return rollupResolveId(this, source, importer)
       },
-      load: rollupLoad,
+      load(this: RollupPluginContext, id: string) {
+        return rollupLoad(this, id)
+      },
       async generateBundle(this: RollupPluginContext, _: unknown, bundle: RollupBundle) {
         await rollupGenerateBundle(this, bundle)
       },
@@ -238,9 +730,13 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
     // ── Webpack ──
 
     webpack(compiler: unknown) {
+      bundlerMode = webpackMode(compiler)
       createWebpackLikeHandler(compiler, {
         pluginName: PLUGIN_NAME,
+        framework: 'webpack',
         inlineRegistry,
+        markerScopes,
+        buildCache,
         transformOptions: options,
         fallbackToRawFile: false,
       })
@@ -249,9 +745,13 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
     // ── Rspack (webpack-compatible API) ──
 
     rspack(compiler: unknown) {
+      bundlerMode = webpackMode(compiler)
       createWebpackLikeHandler(compiler, {
         pluginName: PLUGIN_NAME,
+        framework: 'rspack',
         inlineRegistry,
+        markerScopes,
+        buildCache,
         transformOptions: options,
         fallbackToRawFile: true, // Rspack falls back to raw file on error
       })
@@ -260,25 +760,99 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
     // ── esbuild ──
 
     esbuild: {
-      setup(build: { onEnd: (callback: (result: EsbuildResult) => void) => void }) {
+      setup(build: EsbuildBuild) {
         build.onEnd(async (result: EsbuildResult) => {
           if (!result.outputFiles) return
 
-          // Replace inline entries with raw file content
-          // NOTE: esbuild plugin API doesn't support emitting chunks like Rollup,
-          // so we can't trigger separate builds without importing esbuild module.
-          // To maintain unplugin's abstraction and avoid bundler-specific imports,
-          // we read raw files directly. Users needing transpilation should use
-          // Vite/Rollup/Webpack/Rspack which have richer plugin APIs.
-          for (const [marker, entry] of inlineRegistry) {
+          const cspCollector = createCspCollector(options?.csp)
+          const report = createReportCollector(options?.report)
+          // Returned to esbuild, which adds them to the build result
+          const errors: EsbuildMessage[] = []
+          const warnings: EsbuildMessage[] = []
+          const channels: DiagnosticChannels = {
+            warn: (diagnostic) => warnings.push(toEsbuildMessage(diagnostic)),
+            error: (diagnostic) => errors.push(toEsbuildMessage(diagnostic)),
+          }
+
+          // Build inline entries with a nested esbuild build (`build.esbuild`, esbuild >= 0.17).
+          // Older versions without it fall back to the raw file content.
+          const outputTexts = result.outputFiles.map((file) => file.text)
+          const entries = entriesInOutput(inlineRegistry, outputTexts)
+          pruneMarkers(entries.keys())
+          for (const [marker, entry] of entries) {
             let content: string | null = null
-            try {
-              content = await readFile(entry.filePath, 'utf-8')
-            } catch (e) {
-              console.warn(`[${PLUGIN_NAME}] Failed to read ${entry.filePath}:`, e)
+            let map: string | null = null
+            let assets: Array<{ name: string; contents: Uint8Array }> | null = null
+            if (build.esbuild) {
+              const built = await buildWithEsbuild(
+                build.esbuild,
+                entry.filePath,
+                entry.type,
+                build.initialOptions ?? {},
+                PLUGIN_NAME,
+                { format: entry.format, sourcemap: !!options?.sourcemap },
+              )
+              for (const warning of built.warnings) reportWarning({ message: warning, file: entry.filePath }, channels)
+              content = built.content
+              map = built.map ?? null
+              assets = built.assets ?? []
+              if (built.files) inlineDependencies.set(entry.filePath, built.files)
+            } else if (entry.type === 'css') {
+              content = await loadFlattenedCss(entry.filePath, channels)
+            } else {
+              content = await loadRawFile(entry.filePath, channels)
             }
 
-            if (content == null) continue
+            const record = { source: entry.filePath, marker, type: entry.type, via: build.esbuild ? 'build' : 'raw' } as const
+            if (content == null) {
+              for (const file of result.outputFiles) {
+                if (file.text.includes(marker)) report.add(file.path, { ...record, status: 'failed' }, null)
+              }
+              reportFailure(inlineFailure(entry), options, channels)
+              continue
+            }
+
+            // Relative URLs in the stylesheet no longer resolve once it is inlined
+            if (entry.type === 'css') {
+              content = assets
+                ? await rebaseEsbuildCss(build, result, content, assets)
+                : await rebaseSourceCss(content, entry.filePath, {
+                    publicPath: esbuildPublicPath(build),
+                    inlineLimit: parseSize(options?.cssAssetsInlineLimit),
+                    emitAsset: (filePath, bytes) => emitEsbuildAsset(build, result, filePath, bytes),
+                  })
+            }
+
+            if (!build.esbuild && options?.minify && !entry.raw) content = await minifyContent(content, entry.type, esbuildMinifier())
+            const host = result.outputFiles.find((file) => file.text.includes(marker))?.path
+            content = await applyTransformContent(content, { type: entry.type, filePath: entry.filePath, host, framework: 'esbuild' }, options)
+
+            const maxSize = entry.maxSize ?? resolveMaxSize(undefined, options)
+            const original = content
+            const withinBudget = checkInlineBudget(content, entry.filePath, maxSize, options, channels, { file: entry.importer })
+            if (!withinBudget) {
+              // Over budget: add the content as its own output and reference it
+              const fileName = externalFileName(entry, content)
+              result.outputFiles.push({
+                path: resolve(esbuildOutdir(build), fileName),
+                text: content,
+                contents: new TextEncoder().encode(content),
+              })
+              content = externalReference(entry.type, `${esbuildPublicPath(build)}${fileName}`, entry.format)
+            } else if (options?.sourcemap) {
+              const sourceUrl = sourceUrlFor(entry.filePath)
+              content = build.esbuild
+                ? attachGeneratedSourceMap(content, entry.type, options.sourcemap, sourceUrl, map, (source) => {
+                    const mapName = `${externalFileName(entry, source)}.map`
+                    result.outputFiles!.push({
+                      path: resolve(esbuildOutdir(build), mapName),
+                      text: source,
+                      contents: new TextEncoder().encode(source),
+                    })
+                    return `${esbuildPublicPath(build)}${mapName}`
+                  })
+                : await attachSourceMap(content, entry.type, options.sourcemap, { path: entry.filePath, sourceUrl }, readMapFile)
+            }
 
             // Replace markers in output files
             for (const file of result.outputFiles) {
@@ -286,6 +860,8 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
               if (text.includes(marker)) {
                 const replaced = replaceMarkerInText(text, marker, content)
                 file.contents = new TextEncoder().encode(replaced)
+                cspCollector.add(file.path, entry.type, content)
+                report.add(file.path, { ...record, status: withinBudget ? 'inlined' : 'external' }, original)
               }
             }
           }
@@ -300,7 +876,8 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
 
           // No HTML outputs – nothing to inline
           if (htmlFiles.length === 0) {
-            return
+            emitEsbuildManifests(build, result, cspCollector, report)
+            return { errors, warnings }
           }
 
           const transformed = await inlineHtmlAssets(
@@ -327,6 +904,21 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
               return null
             },
             options,
+            (host, inlined) => cspCollector.add(host, inlined.type, inlined.content, inlined.hash),
+            async (normalized) => {
+              for (const htmlFile of htmlFiles) {
+                const resolved = resolve(dirname(htmlFile.file.path), normalized)
+                const match = result.outputFiles?.find((f) => f.path === resolved)
+                if (match) return match.contents
+                try {
+                  return await readFile(resolved)
+                } catch {
+                  // Ignore and try the next candidate
+                }
+              }
+              return null
+            },
+            { framework: meta.framework, report, ...channels },
           )
 
           // Update HTML files with transformed content
@@ -336,6 +928,9 @@ export const unplugin = createUnplugin<TransformOptions | undefined>((options, m
               file.contents = new TextEncoder().encode(content)
             }
           }
+
+          emitEsbuildManifests(build, result, cspCollector, report)
+          return { errors, warnings }
         })
       },
     },
@@ -0,0 +1,118 @@
+import { createHash } from 'node:crypto'
+import { basename, extname } from 'node:path'
+import { gzipSync } from 'node:zlib'
+import type { InlineDiagnostic, InlineEntry, InlineFormat, TransformOptions } from '../core'
+import { reportFailure, reportWarning, type DiagnosticChannels } from './diagnostics'
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+}
+
+/**
+ * Parse a size such as `8192`, `'8kb'` or `'1.5 MB'` into bytes.
+ * Returns `undefined` for values that are not sizes (e.g. an empty attribute).
+ */
+export function parseSize(value: string | number | undefined): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : undefined
+  if (!value) return undefined
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb)?\s*$/i.exec(value)
+  if (!match) return undefined
+  return Math.round(Number.parseFloat(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()])
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1).replace(/\.0$/, '')} KB`
+  return `${(bytes / 1024 / 1024).toFixed(2).replace(/\.?0+$/, '')} MB`
+}
+
+export function measureSize(content: string, gzip: boolean | undefined): number {
+  return gzip ? gzipSync(content).length : Buffer.byteLength(content, 'utf-8')
+}
+
+// A size among the words of an attribute value, e.g. `production 8kb`
+const VALUE_SIZE_RE = /(?:^|[\s,])(\d+(?:\.\d+)?\s*(?:b|kb|mb)?)(?=$|[\s,])/i
+
+/**
+ * Split an attribute value into its size (`inline="8kb"`), the `raw` flag that
+ * opts out of `minify`, and the conditions around them (`inline="production 8kb"`,
+ * `inline="!dev raw"`)
+ */
+export function parseInlineValue(value: string | undefined): { maxSize?: number; raw: boolean; conditions: string[] } {
+  if (!value) return { raw: false, conditions: [] }
+  const size = VALUE_SIZE_RE.exec(value)
+  const rest = size ? `${value.slice(0, size.index)} ${value.slice(size.index + size[0].length)}` : value
+  const words = rest.split(/[\s,]+/).filter(Boolean)
+  return {
+    maxSize: size ? parseSize(size[1]) : undefined,
+    raw: words.includes('raw'),
+    conditions: words.filter((word) => word !== 'raw'),
+  }
+}
+
+/**
+ * Resolve the size limit for one inline target: a size given in the
+ * attribute value (`inline="8kb"`) overrides the plugin-level `maxSize`.
+ */
+export function resolveMaxSize(attrValue: string | undefined, options: TransformOptions | undefined): number | undefined {
+  return parseInlineValue(attrValue).maxSize ?? parseSize(options?.maxSize)
+}
+
+/**
+ * Check content against its size budget. Returns `true` when the content may
+ * be inlined; otherwise warns through `channels` (with `failOnBudget`, fails
+ * through `channels.error` or throws) and returns `false`. `location` is the
+ * tag or importing module. Without `canKeepExternal` the warning is still
+ * reported but `true` is returned.
+ */
+export function checkInlineBudget(
+  content: string,
+  src: string,
+  maxSize: number | undefined,
+  options: TransformOptions | undefined,
+  channels: DiagnosticChannels = {},
+  location: Omit<InlineDiagnostic, 'message'> = {},
+  canKeepExternal = true,
+): boolean {
+  if (maxSize == null) return true
+  const size = measureSize(content, options?.maxSizeGzip)
+  if (size <= maxSize) return true
+
+  const measured = options?.maxSizeGzip ? ' gzipped' : ''
+  const message = `${src} is ${formatSize(size)}${measured}, over the inline budget of ${formatSize(maxSize)}`
+  if (options?.failOnBudget) {
+    // Kept external if the error channel does not throw; the build has failed either way
+    reportFailure({ ...location, message }, { strict: true }, channels)
+    return false
+  }
+  if (!canKeepExternal) {
+    reportWarning({ ...location, message: `${message}; this bundler cannot emit it separately, so it is inlined anyway` }, channels)
+    return true
+  }
+  reportWarning({ ...location, message: `${message}; keeping it external` }, channels)
+  return false
+}
+
+/**
+ * Inline replacement that loads an over-budget asset from its own file instead.
+ * Used where the inline target is already a `<script>`/`<style>` body (JSX output).
+ * ES modules are imported; classic scripts are added after the running script,
+ * or to `<head>` where there is none (module scripts, content run otherwise).
+ */
+export function externalReference(type: 'js' | 'css', url: string, format?: InlineFormat): string {
+  if (type === 'css') return `@import url(${JSON.stringify(url)});`
+  if (format === 'esm') return `import(${JSON.stringify(url)})`
+  const script = `Object.assign(document.createElement("script"),{src:${JSON.stringify(url)},async:false})`
+  return `(function(s,e){s?s.after(e):document.head.append(e)})(document.currentScript,${script})`
+}
+
+/**
+ * Content-hashed file name for an over-budget entry emitted as its own asset
+ */
+export function externalFileName(entry: InlineEntry, content: string): string {
+  const name = basename(entry.filePath, extname(entry.filePath))
+  const hash = createHash('sha256').update(content).digest('hex').slice(0, 8)
+  return `${name}-${hash}.${entry.type}`
+}
@@ -0,0 +1,138 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import type { TransformOptions } from '../core'
+
+// Bump when the stored record or the built output changes shape
+const CACHE_VERSION = 1
+const DEFAULT_CACHE_DIR = 'node_modules/.cache/unplugin-inline-source'
+
+export interface CachedBuild {
+  content: string
+  map?: string | null
+  /** Every source file the build read, the entry included */
+  files: string[]
+}
+
+type CacheRecord = {
+  content: string
+  map: string | null
+  /** Content hash of each source file at build time */
+  hashes: Record<string, string>
+}
+
+function sha256(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+async function hashFile(file: string): Promise<string | null> {
+  try {
+    return sha256(await readFile(file))
+  } catch {
+    return null
+  }
+}
+
+// Stable text for config values: object keys sorted, functions and regexes by
+// source. Class instances (plugins) only show their own plain settings, so
+// references back to the compiler are not followed.
+function serializeConfig(value: unknown, seen: Set<object>, nested = false): string {
+  if (typeof value === 'function' || value instanceof RegExp) return JSON.stringify(String(value))
+  if (typeof value === 'bigint' || typeof value === 'symbol') return JSON.stringify(String(value))
+  if (value === undefined) return 'undefined'
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (seen.has(value)) return '"[Circular]"'
+  seen.add(value)
+  try {
+    if (Array.isArray(value)) return `[${value.map((item) => serializeConfig(item, seen, nested)).join(',')}]`
+    const proto: unknown = Object.getPrototypeOf(value)
+    const plain = proto === Object.prototype || proto === null
+    if (!plain && nested) return JSON.stringify(value.constructor?.name ?? 'Object')
+    const entries = Object.keys(value).sort().map((key) => {
+      return `${JSON.stringify(key)}:${serializeConfig((value as Record<string, unknown>)[key], seen, nested || !plain)}`
+    })
+    return `${plain ? '' : value.constructor?.name ?? ''}{${entries.join(',')}}`
+  } finally {
+    seen.delete(value)
+  }
+}
+
+/**
+ * Hash of bundler or plugin settings that affect what an inline build outputs,
+ * for cache keys
+ */
+export function configHash(value: unknown): string {
+  return sha256(serializeConfig(value, new Set()))
+}
+
+function isCacheRecord(value: unknown): value is CacheRecord {
+  if (!value || typeof value !== 'object') return false
+  const record = value as Record<string, unknown>
+  return typeof record.content === 'string' && !!record.hashes && typeof record.hashes === 'object'
+}
+
+/**
+ * Cache of inline builds, keyed by the builder, its options and the plugin
+ * options. A hit is only used while every source file still has the content it
+ * was built from. Records stay in memory for watch mode; with `cache: { dir }`
+ * they are also stored on disk for later runs.
+ */
+export function createBuildCache(options: TransformOptions | undefined, root = process.cwd()) {
+  const option = options?.cache
+  const optionsKey = configHash(options ?? null)
+  const memory = new Map<string, CacheRecord>()
+  const enabled = option !== false
+  const dir = option && typeof option === 'object' ? resolve(root, option.dir ?? DEFAULT_CACHE_DIR) : null
+
+  async function readRecord(id: string): Promise<CacheRecord | null> {
+    if (!dir) return null
+    try {
+      const record: unknown = JSON.parse(await readFile(join(dir, `${id}.json`), 'utf-8'))
+      return isCacheRecord(record) ? record : null
+    } catch {
+      return null
+    }
+  }
+
+  return {
+    /** Cached output for `key`, or `null` when missing or any source file changed */
+    async get(key: unknown[]): Promise<CachedBuild | null> {
+      if (!enabled) return null
+      const id = sha256(JSON.stringify([CACHE_VERSION, optionsKey, ...key]))
+      const record = memory.get(id) ?? (await readRecord(id))
+      if (!record) return null
+
+      const files = Object.keys(record.hashes)
+      const hashes = await Promise.all(files.map(hashFile))
+      if (hashes.some((hash, i) => hash !== record.hashes[files[i]])) {
+        memory.delete(id)
+        return null
+      }
+      memory.set(id, record)
+      return { content: record.content, map: record.map, files }
+    },
+
+    /** Store a build; builds whose source files are unknown or unreadable are skipped */
+    async set(key: unknown[], build: CachedBuild): Promise<void> {
+      if (!enabled || build.files.length === 0) return
+      const id = sha256(JSON.stringify([CACHE_VERSION, optionsKey, ...key]))
+      const hashes: Record<string, string> = {}
+      for (const file of build.files) {
+        const hash = await hashFile(file)
+        if (hash == null) return
+        hashes[file] = hash
+      }
+
+      const record: CacheRecord = { content: build.content, map: build.map ?? null, hashes }
+      memory.set(id, record)
+      if (dir) {
+        // A cache that cannot be written only costs a rebuild next time
+        await mkdir(dir, { recursive: true })
+          .then(() => writeFile(join(dir, `${id}.json`), JSON.stringify(record)))
+          .catch(() => {})
+      }
+    },
+  }
+}
+
+export type BuildCache = ReturnType<typeof createBuildCache>
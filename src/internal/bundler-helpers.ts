@@ -3,13 +3,39 @@
  */
 
 import { readFile } from 'node:fs/promises'
-import { transformHtml, type TransformOptions, type InlineEntry } from '../core'
+import { transformHtml, type TransformOptions, type InlineDiagnostic, type InlineEntry, type InlinedAsset } from '../core'
+import { createCspCollector } from './csp'
+import { flattenCssImports } from './css-imports'
+import { createFilter } from './filter'
+import { createReportCollector, type ReportCollector } from './report'
+import { configHash, type BuildCache } from './build-cache'
+import { DEFAULT_SCOPE, type MarkerScopes } from './marker-scopes'
+import { formatDiagnostic, inlineFailure, reportFailure, type DiagnosticChannels } from './diagnostics'
+import { checkInlineBudget, externalFileName, externalReference, resolveMaxSize } from './budget'
+import { attachGeneratedSourceMap, attachSourceMap, sourceUrlFor } from './sourcemap'
+import { entriesInOutput } from './inline-utils'
+import { applyTransformContent } from './transform-content'
+import { minifyContent } from './minify'
 
 /**
  * Asset resolver callback - returns content for a given asset name
  */
 export type AssetResolver = (assetName: string) => string | null | Promise<string | null>
 
+/**
+ * Binary asset resolver, for assets referenced from inlined CSS
+ */
+export type AssetBytesResolver = (assetName: string) => Uint8Array | null | Promise<Uint8Array | null>
+
+/**
+ * Bundler details for `inlineHtmlAssets`: where diagnostics and report entries go
+ */
+export interface HtmlAssetsContext extends DiagnosticChannels {
+  /** Passed to `when` callbacks as `ctx.framework` */
+  framework?: string
+  report?: ReportCollector
+}
+
 /**
  * Generic HTML inlining helper that works with any bundler's asset structure
  */
@@ -17,16 +43,31 @@ export async function inlineHtmlAssets(
   htmlAssets: Array<{ name: string; content: string }>,
   assetResolver: AssetResolver,
   options: TransformOptions | undefined,
+  onInline?: (host: string, asset: InlinedAsset) => void,
+  assetBytesResolver?: AssetBytesResolver,
+  context: HtmlAssetsContext = {},
 ): Promise<Array<{ name: string; content: string }>> {
+  const { framework, report, warn, error } = context
   const results: Array<{ name: string; content: string }> = []
+  const isIncluded = createFilter(options?.html)
+  // Pages inline other bundler outputs, which are minified by the bundler if at all
+  const htmlOptions = options && { ...options, minify: false }
 
   for (const asset of htmlAssets) {
-    if (!asset.name.endsWith('.html')) continue
+    if (!asset.name.endsWith('.html') || !isIncluded(asset.name)) continue
 
     const transformed = await transformHtml(asset.content, async (src) => {
       const normalized = src.replace(/^\.?\//, '')
       return await assetResolver(normalized)
-    }, options)
+    }, htmlOptions, (inlined) => {
+      onInline?.(asset.name, inlined)
+      report?.add(asset.name, { source: inlined.src, type: inlined.type, via: 'output', status: 'inlined' }, inlined.content)
+    }, assetBytesResolver && (async (src) => {
+      const normalized = src.replace(/^\.?\//, '')
+      return await assetBytesResolver(normalized)
+    }), { file: asset.name, framework, warn, error }, report && ((skipped) => {
+      report.add(asset.name, { source: skipped.src, type: skipped.type, via: 'output', status: skipped.status }, skipped.content ?? null)
+    }))
 
     results.push({ name: asset.name, content: transformed })
   }
@@ -84,24 +125,37 @@ export type WebpackLikeCompilation = {
     compile: (
       callback: (
         err: unknown,
-        childCompilation: { assets: WebpackLikeAssets; errors: unknown[] },
+        childCompilation: { assets: WebpackLikeAssets; errors: unknown[]; fileDependencies?: Iterable<string> },
       ) => void,
     ) => void
   }
   updateAsset: (name: string, source: unknown) => void
+  emitAsset: (name: string, source: unknown) => void
+  fileDependencies?: { add: (file: string) => void }
+  errors?: Error[]
+  warnings?: Error[]
+  outputOptions?: { publicPath?: unknown }
   constructor: { PROCESS_ASSETS_STAGE_OPTIMIZE_INLINE: number }
 }
 
 export type WebpackLikeCompiler = {
+  options?: { mode?: string; devtool?: unknown; target?: unknown; module?: unknown; resolve?: unknown; plugins?: unknown[] }
   hooks: {
     compilation: {
       tap: (name: string, callback: (compilation: WebpackLikeCompilation) => void) => void
     }
+    /** Not run for child compilations */
+    thisCompilation?: {
+      tap: (name: string, callback: (compilation: WebpackLikeCompilation) => void) => void
+    }
   }
   webpack?: {
     Compilation?: { PROCESS_ASSETS_STAGE_OPTIMIZE_INLINE: number }
     sources?: { RawSource: new (code: string) => unknown }
     EntryPlugin?: new (...args: unknown[]) => { apply: (compiler: unknown) => void }
+    optimize?: {
+      LimitChunkCountPlugin?: new (options: { maxChunks: number }) => { apply: (compiler: unknown) => void }
+    }
   }
   context?: string
 }
@@ -114,10 +168,56 @@ export interface WebpackLikeHandlerOptions {
   inlineRegistry: Map<string, InlineEntry>
   transformOptions: TransformOptions | undefined
   fallbackToRawFile?: boolean
+  /** Passed to `when` callbacks as `ctx.framework` */
+  framework?: string
+  buildCache?: BuildCache
+  /** Registry entries in use, pruned after each top-level compilation */
+  markerScopes?: MarkerScopes
+}
+
+/**
+ * The `mode` a webpack/rspack compiler was configured with
+ */
+export function webpackMode(compiler: unknown): string | undefined {
+  return (compiler as WebpackLikeCompiler | undefined)?.options?.mode
+}
+
+const DEFAULT_CONCURRENCY = 4
+
+/** Outcome of building one inline entry, shared by the markers importing it */
+type EntryBuild = {
+  content: string | null
+  map: string | null
+  /** Produced by a child compilation (or its cached output) */
+  built: boolean
+  /** Read raw after the child compilation failed */
+  fallback: boolean
+  buildError?: string
+}
+
+/**
+ * Run at most `concurrency` tasks at once
+ */
+function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0
+  const queue: Array<() => void> = []
+  const next = () => {
+    if (active >= Math.max(1, concurrency) || queue.length === 0) return
+    active++
+    queue.shift()!()
+  }
+  return (task) => new Promise((resolve, reject) => {
+    queue.push(() => task().then(resolve, reject).finally(() => {
+      active--
+      next()
+    }))
+    next()
+  })
 }
 
 /**
- * Build content using webpack/rspack child compiler
+ * Build content using webpack/rspack child compiler.
+ * The child inherits the parent's `devtool`, so a `.map` asset may come with it.
  */
 async function buildWithChildCompiler(
   marker: string,
@@ -125,7 +225,7 @@ async function buildWithChildCompiler(
   compilation: WebpackLikeCompilation,
   compiler: WebpackLikeCompiler,
   pluginName: string,
-): Promise<string | null> {
+): Promise<{ content: string; map: string | null; files: string[] } | null> {
   const childCompiler = compilation.createChildCompiler(
     `${pluginName}:${marker}`,
     { filename: `__inline_build_${marker}.js` },
@@ -146,26 +246,46 @@ async function buildWithChildCompiler(
   }
 
   new EntryPlugin(compiler.context, entry.filePath, { name: marker }).apply(childCompiler)
+  // One self-contained file: shared and async chunks are merged into the entry
+  const LimitChunkCountPlugin = compiler.webpack?.optimize?.LimitChunkCountPlugin
+  if (LimitChunkCountPlugin) new LimitChunkCountPlugin({ maxChunks: 1 }).apply(childCompiler)
 
-  const childAssets = await new Promise<WebpackLikeAssets>((resolve, reject) => {
+  const { assets: childAssets, fileDependencies } = await new Promise<{
+    assets: WebpackLikeAssets
+    fileDependencies?: Iterable<string>
+  }>((resolve, reject) => {
     childCompiler.compile((err, childCompilation) => {
       if (err) return reject(err)
       if (childCompilation.errors.length > 0) return reject(childCompilation.errors[0])
-      resolve(childCompilation.assets)
+      resolve(childCompilation)
     })
   })
 
-  // Extract content from child assets
-  for (const childSource of Object.values(childAssets)) {
-    if (!childSource || typeof childSource !== 'object') continue
-    if (!('source' in childSource)) continue
+  // Extract content from child assets, preferring the output over its map
+  const readAsset = (name: string) => {
+    const childSource = childAssets[name]
+    if (!childSource || typeof childSource !== 'object') return null
+    if (!('source' in childSource)) return null
     const maybeSource = childSource.source
-    if (typeof maybeSource !== 'function') continue
-    const sourceValue = maybeSource()
-    return String(sourceValue)
+    if (typeof maybeSource !== 'function') return null
+    // Sources are class instances (webpack-sources): keep `this`
+    return String(maybeSource.call(childSource))
   }
 
-  return null
+  const names = Object.keys(childAssets)
+  const outputName = names.find((name) => !name.endsWith('.map')) ?? names[0]
+  const content = outputName == null ? null : readAsset(outputName)
+  if (content == null) return null
+  return { content, map: readAsset(`${outputName}.map`), files: [...(fileDependencies ?? [])] }
+}
+
+/**
+ * Public path for emitted assets; `'auto'` and function values fall back to `/`
+ */
+function resolvePublicPath(compilation: WebpackLikeCompilation): string {
+  const publicPath = compilation.outputOptions?.publicPath
+  if (typeof publicPath !== 'string' || publicPath === 'auto') return '/'
+  return publicPath.endsWith('/') ? publicPath : `${publicPath}/`
 }
 
 /**
@@ -180,6 +300,19 @@ export function createWebpackLikeHandler(
 
   const webpackCompiler = compiler as WebpackLikeCompiler
   if (!webpackCompiler.hooks?.compilation?.tap) return
+  // Attribute conditions are checked against the compiler's mode unless set explicitly
+  const transformOptions: TransformOptions = {
+    ...options.transformOptions,
+    mode: options.transformOptions?.mode ?? webpackCompiler.options?.mode,
+  }
+  // Loaders, resolve settings (aliases) and plugin settings (DefinePlugin) shape the child builds
+  let compilerKey: string | undefined
+
+  // Child compilations (ours, HTML templates) run within the top-level one and see only part of the registry
+  const topLevel = new WeakSet<WebpackLikeCompilation>()
+  webpackCompiler.hooks.thisCompilation?.tap(options.pluginName, (compilation) => {
+    topLevel.add(compilation)
+  })
 
   webpackCompiler.hooks.compilation.tap(options.pluginName, (compilation) => {
     compilation.hooks.processAssets.tapPromise(
@@ -190,33 +323,122 @@ export function createWebpackLikeHandler(
             .PROCESS_ASSETS_STAGE_OPTIMIZE_INLINE,
       },
       async (assets) => {
-        // Build and replace inline entries
-        for (const [marker, entry] of options.inlineRegistry) {
-          let content: string | null = null
+        const cspCollector = createCspCollector(options.transformOptions?.csp)
+        const report = createReportCollector(options.transformOptions?.report, webpackCompiler.context)
+        const toError = (diagnostic: InlineDiagnostic) => new Error(`[${options.pluginName}] ${formatDiagnostic(diagnostic)}`)
+        const channels: Required<DiagnosticChannels> = {
+          warn: (diagnostic) => compilation.warnings?.push(toError(diagnostic)),
+          error: (diagnostic) => compilation.errors?.push(toError(diagnostic)),
+        }
+        const sourcemap = options.transformOptions?.sourcemap
 
+        async function buildEntry(marker: string, entry: InlineEntry): Promise<EntryBuild> {
+          // Child compilations are the slow part of a rebuild: reuse unchanged ones
+          const { module, resolve, plugins, target } = webpackCompiler.options ?? {}
+          compilerKey ??= configHash({ module, resolve, plugins, target })
+          const cacheKey = [options.framework, entry.filePath, entry.type, entry.format, webpackCompiler.options?.mode, webpackCompiler.options?.devtool ?? null, compilerKey]
+          const cached = await options.buildCache?.get(cacheKey)
           try {
-            content = await buildWithChildCompiler(
+            const result = cached ?? await buildWithChildCompiler(
               marker,
               entry,
               compilation,
               webpackCompiler,
               options.pluginName,
             )
+            if (!result) return { content: null, map: null, built: false, fallback: false }
+            // `compile()` leaves the child's dependencies out of the parent's watch list
+            for (const file of result.files) compilation.fileDependencies?.add(file)
+            if (!cached) await options.buildCache?.set(cacheKey, result)
+            return { content: result.content, map: result.map ?? null, built: true, fallback: false }
           } catch (e) {
-            if (options.fallbackToRawFile) {
-              try {
+            const buildError = e instanceof Error ? e.message : String(e)
+            if (!options.fallbackToRawFile) return { content: null, map: null, built: false, fallback: false, buildError }
+            try {
+              let content: string
+              if (entry.type === 'css') {
+                // Local @imports would point at files that are never emitted
+                const flattened = await flattenCssImports(entry.filePath, (message) => {
+                  channels.warn({ message, file: entry.filePath })
+                })
+                for (const file of flattened.files) compilation.fileDependencies?.add(file)
+                content = flattened.css
+              } else {
                 content = await readFile(entry.filePath, 'utf-8')
-              } catch {
-                /* ignore */
+                compilation.fileDependencies?.add(entry.filePath)
               }
+              return { content, map: null, built: false, fallback: true, buildError }
+            } catch {
+              return { content: null, map: null, built: false, fallback: false, buildError }
             }
           }
+        }
+
+        // One build per file, type and format, shared by every marker importing it
+        const builds = new Map<string, Promise<EntryBuild>>()
+        const limit = createLimiter(options.transformOptions?.concurrency ?? DEFAULT_CONCURRENCY)
+        const scripts = Object.entries(assets).flatMap(([name, source]) => (name.endsWith('.js') ? [source.source().toString()] : []))
+        const entries = entriesInOutput(options.inlineRegistry, scripts)
+        if (topLevel.has(compilation)) options.markerScopes?.prune(DEFAULT_SCOPE, entries.keys())
+        const markers = [...entries].map(([marker, entry]) => {
+          const key = JSON.stringify([entry.filePath, entry.type, entry.format ?? null])
+          let build = builds.get(key)
+          if (!build) {
+            build = limit(() => buildEntry(marker, entry))
+            builds.set(key, build)
+          }
+          return { marker, entry, build }
+        })
+        const warned = new Set<Promise<EntryBuild>>()
 
-          if (content == null) continue
+        // Replace inline entries
+        for (const { marker, entry, build } of markers) {
+          const result = await build
+          const { map, built, fallback, buildError } = result
+          let content = result.content
+
+          const record = { source: entry.filePath, marker, type: entry.type, via: fallback ? 'raw' : 'child-compiler', fallback } as const
+          if (content == null) {
+            for (const [name, source] of Object.entries(assets)) {
+              if (name.endsWith('.js') && source.source().toString().includes(marker)) {
+                report.add(name, { ...record, status: 'failed' }, null)
+              }
+            }
+            reportFailure(inlineFailure(entry, webpackCompiler.context, buildError), transformOptions, channels)
+            continue
+          }
+          if (fallback && !warned.has(build)) {
+            warned.add(build)
+            const source = sourceUrlFor(entry.filePath, webpackCompiler.context)
+            channels.warn({ message: `Could not build ${source} (${buildError}); inlining the file as-is`, file: entry.importer })
+          }
 
           // Replace markers in all JS assets
           const RawSource = webpackCompiler.webpack?.sources?.RawSource
           if (!RawSource) continue
+          if (fallback && options.transformOptions?.minify && !entry.raw) content = await minifyContent(content, entry.type)
+          const host = Object.keys(assets).find((name) => name.endsWith('.js') && assets[name].source().toString().includes(marker))
+          content = await applyTransformContent(content, { type: entry.type, filePath: entry.filePath, host, framework: options.framework }, options.transformOptions)
+          const original = content
+
+          const maxSize = entry.maxSize ?? resolveMaxSize(undefined, options.transformOptions)
+          const withinBudget = checkInlineBudget(content, entry.filePath, maxSize, options.transformOptions, channels, { file: entry.importer })
+          if (!withinBudget) {
+            // Over budget: emit the built content as its own asset and reference it
+            const fileName = externalFileName(entry, content)
+            compilation.emitAsset(fileName, new RawSource(content))
+            content = externalReference(entry.type, `${resolvePublicPath(compilation)}${fileName}`, entry.format)
+          } else if (sourcemap) {
+            const sourceUrl = sourceUrlFor(entry.filePath, webpackCompiler.context)
+            content = built
+              ? attachGeneratedSourceMap(content, entry.type, sourcemap, sourceUrl, map, (source) => {
+                  const mapName = `${externalFileName(entry, source)}.map`
+                  compilation.emitAsset(mapName, new RawSource(source))
+                  return `${resolvePublicPath(compilation)}${mapName}`
+                })
+              : await attachSourceMap(content, entry.type, sourcemap, { path: entry.filePath, sourceUrl }, (mapPath) =>
+                  readFile(mapPath, 'utf-8').catch(() => null))
+          }
 
           for (const [name, source] of Object.entries(assets)) {
             if (!name.endsWith('.js')) continue
@@ -224,6 +446,8 @@ export function createWebpackLikeHandler(
             if (text.includes(marker)) {
               const replaced = replaceMarkerInText(text, marker, content)
               compilation.updateAsset(name, new RawSource(replaced))
+              cspCollector.add(name, entry.type, content)
+              report.add(name, { ...record, status: withinBudget ? 'inlined' : 'external' }, original)
             }
           }
         }
@@ -249,7 +473,14 @@ export function createWebpackLikeHandler(
             }
             return null
           },
-          options.transformOptions,
+          transformOptions,
+          (host, inlined) => cspCollector.add(host, inlined.type, inlined.content, inlined.hash),
+          (normalized) => {
+            const assetSource = assets[normalized]?.source()
+            if (assetSource == null) return null
+            return typeof assetSource === 'string' ? Buffer.from(assetSource) : assetSource
+          },
+          { framework: options.framework, report, ...channels },
         )
 
         // Update HTML assets
@@ -258,6 +489,10 @@ export function createWebpackLikeHandler(
           for (const { name, content } of transformed) {
             compilation.updateAsset(name, new RawSource(content))
           }
+
+          for (const manifest of [cspCollector.emit(), report.emit()]) {
+            if (manifest) compilation.emitAsset(manifest.fileName, new RawSource(manifest.source))
+          }
         }
       },
     )
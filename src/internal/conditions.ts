@@ -0,0 +1,54 @@
+import type { InlineConditionContext, TransformOptions } from '../core'
+import { parseInlineValue } from './budget'
+
+const MODE_ALIASES: Record<string, string> = {
+  dev: 'development',
+  prod: 'production',
+}
+
+// Modes an attribute word names without a `mode` option set to it
+const KNOWN_MODES = new Set(['development', 'production', 'test'])
+
+function normalizeMode(mode: string): string {
+  const lower = mode.toLowerCase()
+  return MODE_ALIASES[lower] ?? lower
+}
+
+// Negations, known modes and the configured mode are conditions; other words
+// (`inline="true"`, `inline="inline"`) inline unconditionally
+function isModeCondition(word: string, options: TransformOptions | undefined): boolean {
+  if (word.startsWith('!')) return true
+  const mode = normalizeMode(word)
+  return KNOWN_MODES.has(mode) || (options?.mode != null && mode === normalizeMode(options.mode))
+}
+
+/**
+ * The mode conditions are checked against: the `mode` option (set by the
+ * plugin from the bundler), else `NODE_ENV`, else `'production'`
+ */
+export function resolveMode(options: TransformOptions | undefined): string {
+  return options?.mode ?? process.env.NODE_ENV ?? 'production'
+}
+
+/**
+ * `production`, `dev` (alias of `development`) or a negation such as `!dev`
+ */
+export function matchesMode(condition: string, mode: string): boolean {
+  const negated = condition.startsWith('!')
+  const matched = normalizeMode(negated ? condition.slice(1) : condition) === normalizeMode(mode)
+  return negated ? !matched : matched
+}
+
+/**
+ * Whether a tag is inlined: every condition in its attribute value must match
+ * the mode, and the `when` option (if any) must agree
+ */
+export function shouldInline(
+  attrValue: string | undefined,
+  ctx: InlineConditionContext,
+  options: TransformOptions | undefined,
+): boolean {
+  const conditions = parseInlineValue(attrValue).conditions.filter((word) => isModeCondition(word, options))
+  if (!conditions.every((condition) => matchesMode(condition, ctx.mode))) return false
+  return options?.when?.(ctx) ?? true
+}
@@ -0,0 +1,115 @@
+import { createHash } from 'node:crypto'
+import type { CspOptions } from '../core'
+import { findHtmlElements, formatElementAttributes } from './html-tokenizer'
+
+export type CspDirective = 'script-src' | 'style-src'
+
+export type CspManifest = Record<string, Partial<Record<CspDirective, string[]>>>
+
+export function cspDirectiveFor(type: 'js' | 'css'): CspDirective {
+  return type === 'js' ? 'script-src' : 'style-src'
+}
+
+/**
+ * Compute a CSP source expression (e.g. `'sha256-...'`) for an inline block
+ */
+export function computeCspHash(content: string, algorithm: 'sha256' | 'sha384' = 'sha256'): string {
+  const digest = createHash(algorithm).update(content, 'utf-8').digest('base64')
+  return `'${algorithm}-${digest}'`
+}
+
+/**
+ * Add the configured nonce to the attributes of an inlined block.
+ * An explicit `nonce` attribute on the original tag wins.
+ */
+export function withCspNonce(attrs: Record<string, string>, csp: CspOptions | undefined): Record<string, string> {
+  if (csp?.mode !== 'nonce' || 'nonce' in attrs) return attrs
+  return { ...attrs, nonce: csp.nonce }
+}
+
+/**
+ * Merge hash sources into a policy string. Missing directives are seeded
+ * from `default-src` (or `'self'`) so adding hashes never narrows the policy.
+ */
+export function mergeCspPolicy(policy: string, hashes: Partial<Record<CspDirective, string[]>>): string {
+  const directives = policy
+    .split(';')
+    .map((part) => part.trim().split(/\s+/).filter(Boolean))
+    .filter((parts) => parts.length > 0)
+
+  for (const [name, sources] of Object.entries(hashes)) {
+    if (!sources || sources.length === 0) continue
+    let directive = directives.find((parts) => parts[0].toLowerCase() === name)
+    if (!directive) {
+      const fallback = directives.find((parts) => parts[0].toLowerCase() === 'default-src')
+      directive = [name, ...(fallback?.slice(1) ?? ["'self'"])]
+      directives.push(directive)
+    }
+    // `'none'` cannot be combined with other sources
+    const none = directive.indexOf("'none'")
+    if (none !== -1) directive.splice(none, 1)
+    for (const source of sources) {
+      if (!directive.includes(source)) directive.push(source)
+    }
+  }
+
+  return directives.map((parts) => parts.join(' ')).join('; ')
+}
+
+/**
+ * Write the hashes into the document's CSP `<meta>` tag, merging with an
+ * existing policy or inserting a new tag at the start of `<head>`.
+ */
+export function mergeCspMeta(html: string, hashes: Partial<Record<CspDirective, string[]>>): string {
+  if (!Object.values(hashes).some((sources) => sources && sources.length > 0)) return html
+
+  const elements = findHtmlElements(html, ['head', 'meta'])
+  const existing = elements.find(
+    (element) => element.name === 'meta' && element.attrs['http-equiv']?.toLowerCase() === 'content-security-policy',
+  )
+  if (existing) {
+    const policy = mergeCspPolicy(existing.attrs.content ?? '', hashes)
+    const attrStr = formatElementAttributes(existing, { ...existing.attrs, content: policy }, [])
+    const close = html.slice(existing.start, existing.end).endsWith('/>') ? ' />' : '>'
+    return html.slice(0, existing.start) + `<meta${attrStr}${close}` + html.slice(existing.end)
+  }
+
+  const meta = `<meta http-equiv="Content-Security-Policy" content="${mergeCspPolicy('', hashes)}">`
+  const head = elements.find((element) => element.name === 'head')
+  if (head) {
+    return html.slice(0, head.tagEnd) + meta + html.slice(head.tagEnd)
+  }
+  return meta + html
+}
+
+/**
+ * Collects hashes per host file (HTML asset or JS chunk) for the JSON manifest
+ */
+export function createCspCollector(csp: CspOptions | undefined) {
+  const manifest: CspManifest = {}
+  const enabled = csp?.mode === 'hash'
+  const algorithm = csp?.mode === 'hash' ? csp.algorithm : undefined
+
+  return {
+    enabled,
+
+    add(host: string, type: 'js' | 'css', content: string, hash?: string) {
+      if (!enabled) return
+      const source = hash ?? computeCspHash(content, algorithm)
+      const sources = ((manifest[host] ??= {})[cspDirectiveFor(type)] ??= [])
+      if (!sources.includes(source)) sources.push(source)
+    },
+
+    /** Manifest file name and JSON source, or `null` when nothing should be emitted */
+    emit(hostName: (host: string) => string = (host) => host): { fileName: string; source: string } | null {
+      if (csp?.mode !== 'hash' || !csp.manifest) return null
+      const renamed: CspManifest = {}
+      for (const [host, hashes] of Object.entries(manifest)) {
+        renamed[hostName(host)] = hashes
+      }
+      return { fileName: csp.manifest, source: JSON.stringify(renamed, null, 2) }
+    },
+  }
+}
+
+export type CspCollector = ReturnType<typeof createCspCollector>
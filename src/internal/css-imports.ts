@@ -0,0 +1,195 @@
+import { readFile } from 'node:fs/promises'
+import { dirname, posix, relative, resolve, sep } from 'node:path'
+import { findCssUrls, isRelativeCssUrl, joinCssUrl, rewriteCssUrls } from './css-urls'
+import { replaceRanges } from './html-tokenizer'
+
+export interface CssImportRule {
+  /** Imported URL as written */
+  url: string
+  /** `layer` name; `''` for an anonymous layer */
+  layer?: string
+  supports?: string
+  media?: string
+  /** Range of the whole rule, including its `;` */
+  start: number
+  end: number
+}
+
+export interface FlattenedCss {
+  css: string
+  /** The stylesheet and every file it imports, for watch registration */
+  files: string[]
+}
+
+function skipCommentsAndWhitespace(css: string, i: number): number {
+  while (i < css.length) {
+    if (/\s/.test(css[i])) i++
+    else if (css.startsWith('/*', i)) {
+      const close = css.indexOf('*/', i + 2)
+      i = close === -1 ? css.length : close + 2
+    } else break
+  }
+  return i
+}
+
+// End of a balanced `(...)` group starting at `i`, skipping strings
+function findGroupEnd(css: string, i: number): number {
+  let depth = 0
+  for (; i < css.length; i++) {
+    const ch = css[i]
+    if (ch === '"' || ch === "'") {
+      const close = css.indexOf(ch, i + 1)
+      i = close === -1 ? css.length : close
+    } else if (ch === '(') depth++
+    else if (ch === ')' && --depth === 0) return i + 1
+  }
+  return css.length
+}
+
+/**
+ * Find the `@import` rules at the start of a stylesheet (after `@charset` and
+ * `@layer` statements), with their layer, supports and media conditions
+ */
+export function findCssImports(css: string): CssImportRule[] {
+  const rules: CssImportRule[] = []
+  const urls = findCssUrls(css)
+  let i = skipCommentsAndWhitespace(css, 0)
+
+  while (i < css.length && css[i] === '@') {
+    const name = /^@([\w-]+)/.exec(css.slice(i))?.[1].toLowerCase()
+    if (name !== 'import' && name !== 'charset' && name !== 'layer') break
+
+    // Statement end: the first `;` outside strings and parentheses
+    let end = i
+    while (end < css.length && css[end] !== ';' && css[end] !== '{') {
+      if (css[end] === '(' || css[end] === '"' || css[end] === "'") {
+        end = css[end] === '(' ? findGroupEnd(css, end) : css.indexOf(css[end], end + 1) + 1 || css.length
+      } else end++
+    }
+    // `@layer name { ... }` is a block, not a statement: imports must come before it
+    if (css[end] === '{') break
+    end = Math.min(end + 1, css.length)
+
+    if (name === 'import') {
+      const ref = urls.find((url) => url.start > i && url.start < end)
+      if (ref) {
+        // `url(...)` closes after the URL token; a quoted string ends at the token
+        let rest = ref.end
+        if (css[rest] !== ';' && /^\s*\)/.test(css.slice(rest))) rest = css.indexOf(')', rest) + 1
+        rules.push({ url: ref.url, start: i, end, ...parseImportConditions(css.slice(rest, end - 1)) })
+      }
+    }
+    i = skipCommentsAndWhitespace(css, end)
+  }
+
+  return rules
+}
+
+function parseImportConditions(text: string): Pick<CssImportRule, 'layer' | 'supports' | 'media'> {
+  const conditions: Pick<CssImportRule, 'layer' | 'supports' | 'media'> = {}
+  let rest = text.trim()
+
+  const layer = /^layer(?:\(|\b)/i.exec(rest)
+  if (layer) {
+    if (layer[0].endsWith('(')) {
+      const close = findGroupEnd(rest, layer[0].length - 1)
+      conditions.layer = rest.slice(layer[0].length, close - 1).trim()
+      rest = rest.slice(close).trim()
+    } else {
+      conditions.layer = ''
+      rest = rest.slice(layer[0].length).trim()
+    }
+  }
+
+  if (/^supports\(/i.test(rest)) {
+    const close = findGroupEnd(rest, 'supports'.length)
+    conditions.supports = rest.slice('supports('.length, close - 1).trim()
+    rest = rest.slice(close).trim()
+  }
+
+  if (rest) conditions.media = rest
+  return conditions
+}
+
+/**
+ * Wrap imported CSS in the at-rules matching its import conditions
+ */
+export function wrapImportedCss(css: string, rule: Pick<CssImportRule, 'layer' | 'supports' | 'media'>): string {
+  let result = css
+  if (rule.layer != null) result = `@layer${rule.layer ? ` ${rule.layer}` : ''} {\n${result}\n}`
+  if (rule.supports != null) {
+    const condition = /^[(]/.test(rule.supports) || /^(?:not|selector)\b/i.test(rule.supports) ? rule.supports : `(${rule.supports})`
+    result = `@supports ${condition} {\n${result}\n}`
+  }
+  if (rule.media != null) result = `@media ${rule.media} {\n${result}\n}`
+  return result
+}
+
+function displayPath(filePath: string): string {
+  return relative(process.cwd(), filePath).split(sep).join('/')
+}
+
+/**
+ * Inline the local `@import` rules of a stylesheet read from disk, recursively.
+ * URLs in imported files are rebased to the importing file. Conditional imports
+ * are wrapped in `@layer`/`@supports`/`@media`; remote imports are kept and
+ * moved to the top. Import cycles are reported through `warn` and dropped.
+ */
+export async function flattenCssImports(
+  filePath: string,
+  warn: (message: string) => void = console.warn,
+): Promise<FlattenedCss> {
+  const files: string[] = []
+
+  async function load(file: string, stack: string[]): Promise<{ css: string; hoisted: string[] }> {
+    if (!files.includes(file)) files.push(file)
+    const source = await readFile(file, 'utf-8')
+    const hoisted: string[] = []
+    const replacements: Array<{ start: number; end: number; content: string }> = []
+
+    for (const rule of findCssImports(source)) {
+      if (!isRelativeCssUrl(rule.url) || /^[?#]/.test(rule.url)) {
+        // Remote or root-relative: must stay an @import at the top of the result
+        hoisted.push(source.slice(rule.start, rule.end))
+        replacements.push({ start: rule.start, end: rule.end, content: '' })
+        continue
+      }
+
+      const target = resolve(dirname(file), rule.url.replace(/[?#].*$/, ''))
+      if (stack.includes(target)) {
+        warn(`CSS import cycle: ${[...stack, target].map(displayPath).join(' -> ')}`)
+        replacements.push({ start: rule.start, end: rule.end, content: '' })
+        continue
+      }
+
+      let imported: { css: string; hoisted: string[] }
+      try {
+        imported = await load(target, [...stack, target])
+      } catch {
+        warn(`Could not read ${displayPath(target)} imported from ${displayPath(file)}`)
+        continue
+      }
+      hoisted.push(...imported.hoisted)
+
+      // URLs in the imported file are relative to it, not to the importer
+      const fromDir = posix.relative(dirname(file).split(sep).join('/'), dirname(target).split(sep).join('/'))
+      const rebased = fromDir
+        ? await rewriteCssUrls(imported.css, (url) => (isRelativeCssUrl(url) ? joinCssUrl(`${fromDir}/_`, url) : url))
+        : imported.css
+      replacements.push({ start: rule.start, end: rule.end, content: wrapImportedCss(rebased, rule) })
+    }
+
+    let css = replaceRanges(source, replacements)
+    // @charset is only valid at the very start of the output
+    if (stack.length > 1) css = css.replace(/^\s*@charset\s+(["'])[^"']*\1\s*;/i, '')
+
+    return { css, hoisted }
+  }
+
+  const root = resolve(filePath)
+  const { css, hoisted } = await load(root, [root])
+  if (hoisted.length === 0) return { css, files }
+  // Kept imports go after a leading @charset, before everything else
+  const charset = /^\s*@charset\s+(["'])[^"']*\1\s*;/i.exec(css)?.[0] ?? ''
+  return { css: `${charset}${charset ? '\n' : ''}${hoisted.join('\n')}\n${css.slice(charset.length)}`, files }
+}
@@ -0,0 +1,240 @@
+import { createHash } from 'node:crypto'
+import { access, readFile } from 'node:fs/promises'
+import { basename, dirname, extname, posix, relative, resolve, sep } from 'node:path'
+import { replaceRanges } from './html-tokenizer'
+
+export interface CssUrlReference {
+  /** URL as written, with escapes and quotes removed */
+  url: string
+  /** Range of the URL token (including its quotes) */
+  start: number
+  end: number
+  quote: '"' | "'" | ''
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.avif': 'image/avif',
+  '.gif': 'image/gif',
+  '.ico': 'image/x-icon',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.otf': 'font/otf',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.ttf': 'font/ttf',
+  '.webp': 'image/webp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+}
+
+/** File extensions of assets that can be embedded as data URIs */
+export const CSS_ASSET_EXTENSIONS = Object.keys(MIME_TYPES)
+
+const IDENT_CHAR_RE = /[\w-]/
+
+function unescapeCss(value: string): string {
+  return value.replace(/\\([0-9a-fA-F]{1,6}\s?|[\s\S])/g, (_, escaped: string) => {
+    if (/^[0-9a-fA-F]/.test(escaped)) return String.fromCodePoint(Number.parseInt(escaped.trim(), 16))
+    return escaped === '\n' ? '' : escaped
+  })
+}
+
+function readString(css: string, i: number): number {
+  const quote = css[i]
+  i++
+  while (i < css.length && css[i] !== quote && css[i] !== '\n') {
+    if (css[i] === '\\') i++
+    i++
+  }
+  return Math.min(i + 1, css.length)
+}
+
+/**
+ * Find the URLs of `url(...)` functions and `@import "..."` rules,
+ * skipping comments and other strings.
+ */
+export function findCssUrls(css: string): CssUrlReference[] {
+  const refs: CssUrlReference[] = []
+  let i = 0
+
+  while (i < css.length) {
+    const ch = css[i]
+
+    if (ch === '/' && css[i + 1] === '*') {
+      const close = css.indexOf('*/', i + 2)
+      i = close === -1 ? css.length : close + 2
+      continue
+    }
+
+    if (ch === '"' || ch === "'") {
+      i = readString(css, i)
+      continue
+    }
+
+    // @import "file.css"
+    if (ch === '@' && css.slice(i + 1, i + 7).toLowerCase() === 'import' && !IDENT_CHAR_RE.test(css[i + 7] ?? '')) {
+      let j = i + 7
+      while (/\s/.test(css[j] ?? '')) j++
+      if (css[j] === '"' || css[j] === "'") {
+        const end = readString(css, j)
+        refs.push({ url: unescapeCss(css.slice(j + 1, end - 1)), start: j, end, quote: css[j] as '"' | "'" })
+        i = end
+        continue
+      }
+      i = j
+      continue
+    }
+
+    // url(...), but not e.g. `my-url(`
+    if ((ch === 'u' || ch === 'U') && css.slice(i, i + 4).toLowerCase() === 'url(' && !IDENT_CHAR_RE.test(css[i - 1] ?? '')) {
+      let j = i + 4
+      while (/\s/.test(css[j] ?? '')) j++
+      if (css[j] === '"' || css[j] === "'") {
+        const end = readString(css, j)
+        refs.push({ url: unescapeCss(css.slice(j + 1, end - 1)), start: j, end, quote: css[j] as '"' | "'" })
+        i = end
+        continue
+      }
+      const start = j
+      while (j < css.length && css[j] !== ')' && !/\s/.test(css[j])) {
+        if (css[j] === '\\') j++
+        j++
+      }
+      if (j > start) refs.push({ url: unescapeCss(css.slice(start, j)), start, end: j, quote: '' })
+      i = j
+      continue
+    }
+
+    i++
+  }
+
+  return refs
+}
+
+/**
+ * Relative URLs are resolved against the stylesheet, so they break once the
+ * CSS is moved into a `<style>` block elsewhere
+ */
+export function isRelativeCssUrl(url: string): boolean {
+  return url !== '' && !/^(?:[a-z][a-z\d+.-]*:|[\/#%])/i.test(url)
+}
+
+function formatCssUrl(url: string, quote: CssUrlReference['quote']): string {
+  if (quote) return `${quote}${url.replace(/[\\\n]/g, '\\$&').replaceAll(quote, `\\${quote}`)}${quote}`
+  return /[\s"'()\\]/.test(url) ? JSON.stringify(url) : url
+}
+
+/**
+ * Rewrite every URL found by `findCssUrls`; returning the URL unchanged keeps its source text
+ */
+export async function rewriteCssUrls(
+  css: string,
+  rewrite: (url: string) => string | Promise<string>,
+): Promise<string> {
+  const replacements: Array<{ start: number; end: number; content: string }> = []
+  for (const ref of findCssUrls(css)) {
+    const url = await rewrite(ref.url)
+    if (url !== ref.url) replacements.push({ start: ref.start, end: ref.end, content: formatCssUrl(url, ref.quote) })
+  }
+  return replacements.length > 0 ? replaceRanges(css, replacements) : css
+}
+
+/**
+ * Resolve a relative URL from a stylesheet at `cssPath` (a path or URL path),
+ * keeping its query and hash
+ */
+export function joinCssUrl(cssPath: string, url: string): string {
+  const dir = posix.dirname(cssPath)
+  return dir === '.' ? url : posix.join(dir, url)
+}
+
+/**
+ * Strip the query and hash from a URL to get the file it points at
+ */
+export function cssUrlPath(url: string): string {
+  return url.replace(/[?#].*$/, '')
+}
+
+export function assetDataUri(filePath: string, bytes: Uint8Array): string | null {
+  const mime = MIME_TYPES[extname(filePath).toLowerCase()]
+  if (!mime) return null
+  return `data:${mime};base64,${Buffer.from(bytes).toString('base64')}`
+}
+
+/**
+ * Rebase the relative URLs of CSS that moves into a page. `target` gives the
+ * new URL (or `null` to leave it); with `inlineLimit`, assets read by
+ * `readAsset` (given the original relative URL) up to that size become data URIs.
+ */
+export function rebaseCssUrls(
+  css: string,
+  target: (url: string) => string | null | Promise<string | null>,
+  options: { inlineLimit?: number; readAsset?: (url: string) => Promise<Uint8Array | null> } = {},
+): Promise<string> {
+  return rewriteCssUrls(css, async (url) => {
+    if (!isRelativeCssUrl(url)) return url
+    if (options.inlineLimit != null && options.readAsset) {
+      const bytes = await options.readAsset(cssUrlPath(url))
+      const dataUri = bytes && bytes.length <= options.inlineLimit ? assetDataUri(cssUrlPath(url), bytes) : null
+      if (dataUri) return dataUri
+    }
+    return (await target(url)) ?? url
+  })
+}
+
+/**
+ * Content-hashed output name for an asset referenced by inlined CSS
+ */
+export function assetFileName(filePath: string, bytes: Uint8Array): string {
+  const ext = extname(filePath)
+  const hash = createHash('sha256').update(bytes).digest('hex').slice(0, 8)
+  return `${basename(filePath, ext)}-${hash}${ext}`
+}
+
+/**
+ * Rebase the URLs of a stylesheet read from disk (not emitted by the bundler).
+ * With `emitAsset`, referenced files are emitted and referenced as `publicPath`
+ * + the returned output name; without it, files under `root` are referenced as
+ * `publicPath` + their root-relative path, which only resolves in dev servers.
+ */
+export function rebaseSourceCss(
+  css: string,
+  filePath: string,
+  options: {
+    publicPath?: string
+    root?: string
+    inlineLimit?: number
+    emitAsset?: (assetPath: string, bytes: Uint8Array) => string | Promise<string>
+  } = {},
+): Promise<string> {
+  const root = options.root ?? process.cwd()
+  const publicPath = options.publicPath ?? '/'
+  const resolveAsset = (url: string) => resolve(dirname(filePath), cssUrlPath(url))
+  const reads = new Map<string, Promise<Uint8Array | null>>()
+  const readAsset = (url: string) => {
+    const assetPath = resolveAsset(url)
+    let read = reads.get(assetPath)
+    if (!read) reads.set(assetPath, (read = readFile(assetPath).catch(() => null)))
+    return read
+  }
+
+  return rebaseCssUrls(css, async (url) => {
+    const assetPath = resolveAsset(url)
+    const suffix = url.slice(cssUrlPath(url).length)
+    if (options.emitAsset) {
+      const bytes = await readAsset(url)
+      return bytes ? `${publicPath}${await options.emitAsset(assetPath, bytes)}${suffix}` : null
+    }
+    const fromRoot = relative(root, assetPath)
+    if (fromRoot.startsWith('..')) return null
+    try {
+      await access(assetPath)
+    } catch {
+      return null
+    }
+    return `${publicPath}${fromRoot.split(sep).join('/')}${suffix}`
+  }, {
+    inlineLimit: options.inlineLimit,
+    readAsset,
+  })
+}
@@ -0,0 +1,92 @@
+import type { InlineDiagnostic, InlineEntry, TransformOptions } from '../core'
+import { sourceUrlFor } from './sourcemap'
+
+const PLUGIN_NAME = 'unplugin-inline-source'
+
+export interface DiagnosticChannels {
+  warn?: (diagnostic: InlineDiagnostic) => void
+  error?: (diagnostic: InlineDiagnostic) => void
+}
+
+/**
+ * 1-based line and column of an offset in `code`
+ */
+export function locate(code: string, offset: number): { line: number; column: number } {
+  const lines = code.slice(0, offset).split('\n')
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+}
+
+/**
+ * `file:line:column: message`, with whatever location is known
+ */
+export function formatDiagnostic(diagnostic: InlineDiagnostic): string {
+  if (!diagnostic.file) return diagnostic.message
+  const location = [diagnostic.file, diagnostic.line, diagnostic.column].filter((part) => part != null).join(':')
+  return `${location}: ${diagnostic.message}`
+}
+
+/**
+ * Report a tag or import that could not be inlined: a warning, or with `strict`
+ * an error. Without the matching channel it is logged, or thrown.
+ */
+export function reportFailure(
+  diagnostic: InlineDiagnostic,
+  options: TransformOptions | undefined,
+  channels: DiagnosticChannels = {},
+): void {
+  if (options?.strict) {
+    if (!channels.error) throw new Error(`[${PLUGIN_NAME}] ${formatDiagnostic(diagnostic)}`)
+    channels.error(diagnostic)
+  } else {
+    reportWarning(diagnostic, channels)
+  }
+}
+
+/**
+ * Report a warning through `channels`, else log it
+ */
+export function reportWarning(diagnostic: InlineDiagnostic, channels: DiagnosticChannels = {}): void {
+  if (channels.warn) channels.warn(diagnostic)
+  else console.warn(`[${PLUGIN_NAME}] ${formatDiagnostic(diagnostic)}`)
+}
+
+/**
+ * Rollup/unplugin log: `loc.column` is 0-based there
+ */
+export function toUnpluginMessage(diagnostic: InlineDiagnostic): {
+  message: string
+  id?: string
+  loc?: { file?: string; line: number; column: number }
+} {
+  const { message, file, line, column } = diagnostic
+  return { message, id: file, loc: line != null ? { file, line, column: (column ?? 1) - 1 } : undefined }
+}
+
+/**
+ * esbuild message for `result.errors`/`result.warnings`
+ */
+export function toEsbuildMessage(diagnostic: InlineDiagnostic): {
+  text: string
+  location: { file: string; line: number; column: number } | null
+} {
+  const { message, file, line, column } = diagnostic
+  return {
+    text: message,
+    location: file ? { file, line: line ?? 1, column: (column ?? 1) - 1 } : null,
+  }
+}
+
+/**
+ * An inline import of a file the `assets` option excludes
+ */
+export function excludedImport(path: string, importer?: string): InlineDiagnostic {
+  return { message: `Could not inline ${path}: excluded by the \`assets\` option`, file: importer }
+}
+
+/**
+ * A marker whose file could not be built or read, located at the importing module
+ */
+export function inlineFailure(entry: InlineEntry, root?: string, reason?: string): InlineDiagnostic {
+  const message = `Could not inline ${sourceUrlFor(entry.filePath, root)}${reason ? `: ${reason}` : ''}`
+  return { message, file: entry.importer }
+}
@@ -0,0 +1,40 @@
+import { isAbsolute, relative, sep } from 'node:path'
+import picomatch from 'picomatch'
+import type { FilterOptions, FilterPattern } from '../core'
+
+type Matcher = (id: string) => boolean
+
+function toMatchers(pattern: FilterPattern | undefined, root: string): Matcher[] {
+  if (pattern == null) return []
+  return (Array.isArray(pattern) ? pattern : [pattern]).map((item): Matcher => {
+    if (typeof item === 'function') return item
+    if (item instanceof RegExp) {
+      return (id) => {
+        item.lastIndex = 0
+        return item.test(id.split(sep).join('/'))
+      }
+    }
+    const match = picomatch(item, { dot: true })
+    return (id) => match(matchPath(id, root))
+  })
+}
+
+// Globs see ids as root-relative POSIX paths, without query or `./`
+function matchPath(id: string, root: string): string {
+  const path = id.replace(/[?#].*$/, '')
+  return (isAbsolute(path) ? relative(root, path) : path).split(sep).join('/').replace(/^\.\//, '')
+}
+
+/**
+ * Filter in the style of unplugin's `createFilter`: excluded ids are rejected
+ * first, then an id must match `include` when it is given. Globs are matched
+ * against paths relative to `root`; regexes and functions get the full id.
+ */
+export function createFilter(options: FilterOptions | undefined, root = process.cwd()): Matcher {
+  const include = toMatchers(options?.include, root)
+  const exclude = toMatchers(options?.exclude, root)
+  return (id) => {
+    if (exclude.some((match) => match(id))) return false
+    return include.length === 0 || include.some((match) => match(id))
+  }
+}
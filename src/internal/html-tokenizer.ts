@@ -0,0 +1,380 @@
+/**
+ * Small streaming HTML tokenizer following the WHATWG tokenization rules
+ * closely enough to find `<script>`/`<link>`/`<meta>` tags reliably.
+ *
+ * Every token carries its exact `[start, end)` source range so callers can
+ * splice replacements into the original string and leave everything else
+ * byte-for-byte unchanged.
+ */
+
+export interface HtmlAttribute {
+  /** Lowercased attribute name */
+  name: string
+  /** Value with character references decoded */
+  value: string
+  /** Attribute source text, e.g. `type="module"` */
+  raw: string
+  start: number
+  end: number
+}
+
+export type HtmlToken =
+  | { type: 'startTag'; name: string; attrs: HtmlAttribute[]; selfClosing: boolean; start: number; end: number }
+  | { type: 'endTag'; name: string; start: number; end: number }
+  | { type: 'comment'; start: number; end: number }
+  | { type: 'text'; start: number; end: number }
+
+export interface HtmlElement {
+  name: string
+  /** Decoded attribute values; the first occurrence of a duplicate attribute wins */
+  attrs: Record<string, string>
+  /** Attribute source text by name, used to re-emit untouched attributes verbatim */
+  rawAttrs: Record<string, string>
+  /** Range of the whole element (through its end tag for raw text elements) */
+  start: number
+  end: number
+  /** Range of the start tag only */
+  tagEnd: number
+  /** Range of the element's text content (empty for void and other elements) */
+  contentStart: number
+  contentEnd: number
+}
+
+// Elements whose content is not parsed as markup (scripting enabled, so <noscript> too)
+const RAW_TEXT_ELEMENTS = new Set([
+  'script', 'style', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript', 'textarea', 'title',
+])
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+])
+
+const NAMED_REFERENCES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+export interface TokenizeOptions {
+  /**
+   * Attribute values and bare attributes may be `{...}` expressions (Astro
+   * templates), which run to the matching brace
+   */
+  expressions?: boolean
+}
+
+const WHITESPACE_RE = /[\t\n\f\r ]/
+const ALPHA_RE = /[a-zA-Z]/
+
+/**
+ * Decode numeric and common named character references.
+ * Named references are only recognized with a terminating semicolon.
+ */
+export function decodeHtmlEntities(value: string): string {
+  if (!value.includes('&')) return value
+  return value.replace(/&(?:#(\d+)|#[xX]([\da-fA-F]+)|([a-zA-Z]+));/g, (match, dec, hex, name) => {
+    if (name) return NAMED_REFERENCES[name] ?? match
+    const code = dec ? Number.parseInt(dec, 10) : Number.parseInt(hex, 16)
+    if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return '\uFFFD'
+    return String.fromCodePoint(code)
+  })
+}
+
+function skipWhitespace(html: string, i: number): number {
+  while (i < html.length && WHITESPACE_RE.test(html[i])) i++
+  return i
+}
+
+// End of the `{...}` expression at `i`, skipping strings; -1 when unclosed
+function findExpressionEnd(html: string, i: number): number {
+  let depth = 0
+  for (; i < html.length; i++) {
+    const ch = html[i]
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i++
+      while (i < html.length && html[i] !== ch) i += html[i] === '\\' ? 2 : 1
+    } else if (ch === '{') depth++
+    else if (ch === '}' && --depth === 0) return i + 1
+  }
+  return -1
+}
+
+/**
+ * Parse attributes starting at `i` until the end of the tag.
+ * Returns `end: -1` when the input ends before the tag is closed.
+ */
+export function parseTagAttributes(
+  html: string,
+  i: number,
+  options: TokenizeOptions = {},
+): { attrs: HtmlAttribute[]; selfClosing: boolean; end: number } {
+  const attrs: HtmlAttribute[] = []
+  let selfClosing = false
+
+  while (i < html.length) {
+    i = skipWhitespace(html, i)
+    const ch = html[i]
+    if (ch === undefined) break
+    if (ch === '>') return { attrs, selfClosing, end: i + 1 }
+    if (ch === '/') {
+      i++
+      if (html[i] === '>') {
+        selfClosing = true
+        return { attrs, selfClosing, end: i + 1 }
+      }
+      continue
+    }
+
+    // Spread or shorthand expression, e.g. `{...props}`: kept whole as the name
+    if (options.expressions && ch === '{') {
+      const end = findExpressionEnd(html, i)
+      if (end === -1) return { attrs, selfClosing, end: -1 }
+      attrs.push({ name: html.slice(i, end), value: '', raw: html.slice(i, end), start: i, end })
+      i = end
+      continue
+    }
+
+    // Attribute name (a leading `=` belongs to the name)
+    const start = i
+    i++
+    while (i < html.length && !WHITESPACE_RE.test(html[i]) && !'/>='.includes(html[i])) i++
+    const name = html.slice(start, i).toLowerCase()
+
+    let value = ''
+    let end = i
+    const afterName = skipWhitespace(html, i)
+    if (html[afterName] === '=') {
+      i = skipWhitespace(html, afterName + 1)
+      const quote = html[i]
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, i + 1)
+        if (close === -1) return { attrs, selfClosing, end: -1 }
+        value = html.slice(i + 1, close)
+        i = close + 1
+      } else if (options.expressions && quote === '{') {
+        const close = findExpressionEnd(html, i)
+        if (close === -1) return { attrs, selfClosing, end: -1 }
+        value = html.slice(i, close)
+        i = close
+      } else {
+        const valueStart = i
+        while (i < html.length && !WHITESPACE_RE.test(html[i]) && html[i] !== '>') i++
+        value = html.slice(valueStart, i)
+      }
+      end = i
+    }
+
+    attrs.push({ name, value: decodeHtmlEntities(value), raw: html.slice(start, end), start, end })
+  }
+
+  return { attrs, selfClosing, end: -1 }
+}
+
+function findRawTextEnd(html: string, name: string, from: number): number {
+  const re = new RegExp(`</${name}(?=[\\t\\n\\f\\r />]|$)`, 'gi')
+  re.lastIndex = from
+  const match = re.exec(html)
+  return match ? match.index : -1
+}
+
+/**
+ * Tokenize HTML into start tags, end tags, comments and text runs.
+ * Raw text element content (e.g. `<script>`, `<textarea>`) is a single text token.
+ */
+export function* tokenizeHtml(html: string, options: TokenizeOptions = {}): Generator<HtmlToken> {
+  let i = 0
+  let textStart = 0
+
+  function* flushText(until: number): Generator<HtmlToken> {
+    if (until > textStart) yield { type: 'text', start: textStart, end: until }
+  }
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i)
+    if (lt === -1) break
+    i = lt
+
+    const next = html[i + 1]
+
+    // Comments: <!-- ... -->, including the abrupt `<!-->` and `<!--->` forms
+    if (html.startsWith('<!--', i)) {
+      yield* flushText(i)
+      let end: number
+      if (html.startsWith('>', i + 4)) end = i + 5
+      else if (html.startsWith('->', i + 4)) end = i + 6
+      else {
+        const close = html.indexOf('-->', i + 4)
+        end = close === -1 ? html.length : close + 3
+      }
+      yield { type: 'comment', start: i, end }
+      i = textStart = end
+      continue
+    }
+
+    // Bogus comments: <!DOCTYPE ...>, <![CDATA[...]>, <?...>, </1...>
+    if (next === '!' || next === '?' || (next === '/' && html[i + 2] !== undefined && !ALPHA_RE.test(html[i + 2]) && html[i + 2] !== '>')) {
+      yield* flushText(i)
+      const close = html.indexOf('>', i + 2)
+      const end = close === -1 ? html.length : close + 1
+      yield { type: 'comment', start: i, end }
+      i = textStart = end
+      continue
+    }
+
+    // `</>` is dropped entirely
+    if (next === '/' && html[i + 2] === '>') {
+      yield* flushText(i)
+      i = textStart = i + 3
+      continue
+    }
+
+    const isEndTag = next === '/'
+    const nameStart = isEndTag ? i + 2 : i + 1
+    if (!ALPHA_RE.test(html[nameStart] ?? '')) {
+      i++
+      continue
+    }
+
+    let nameEnd = nameStart
+    while (nameEnd < html.length && !WHITESPACE_RE.test(html[nameEnd]) && html[nameEnd] !== '/' && html[nameEnd] !== '>') nameEnd++
+    const name = html.slice(nameStart, nameEnd).toLowerCase()
+
+    const parsed = parseTagAttributes(html, nameEnd, options)
+    // EOF inside a tag: the tag is not emitted
+    if (parsed.end === -1) break
+
+    yield* flushText(i)
+    const tagStart = i
+    i = textStart = parsed.end
+
+    if (isEndTag) {
+      yield { type: 'endTag', name, start: tagStart, end: parsed.end }
+      continue
+    }
+
+    yield { type: 'startTag', name, attrs: parsed.attrs, selfClosing: parsed.selfClosing, start: tagStart, end: parsed.end }
+
+    if (name === 'plaintext') {
+      break
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = findRawTextEnd(html, name, i)
+      if (close === -1) break
+      yield* flushText(close)
+      i = textStart = close
+    }
+  }
+
+  yield* flushText(html.length)
+}
+
+/**
+ * Find elements by tag name, skipping anything inside comments, raw text
+ * elements (`<noscript>`, `<textarea>`, ...) and `<template>` contents.
+ *
+ * Ranges cover the whole element for void and raw text elements; for other
+ * elements only the start tag is covered.
+ */
+export function findHtmlElements(html: string, names: string[], options: TokenizeOptions = {}): HtmlElement[] {
+  const wanted = new Set(names.map((name) => name.toLowerCase()))
+  const elements: HtmlElement[] = []
+  let templateDepth = 0
+  let open: HtmlElement | null = null
+
+  for (const token of tokenizeHtml(html, options)) {
+    if (open) {
+      if (token.type === 'text') {
+        open.contentEnd = token.end
+        continue
+      }
+      if (token.type === 'endTag' && token.name === open.name) {
+        open.end = token.end
+      }
+      open = null
+    }
+
+    if (token.type === 'endTag' && token.name === 'template') {
+      templateDepth = Math.max(0, templateDepth - 1)
+      continue
+    }
+    if (token.type !== 'startTag') continue
+    if (token.name === 'template') {
+      templateDepth++
+      continue
+    }
+    if (templateDepth > 0 || !wanted.has(token.name)) continue
+
+    const attrs: Record<string, string> = {}
+    const rawAttrs: Record<string, string> = {}
+    for (const attr of token.attrs) {
+      if (attr.name in attrs) continue
+      attrs[attr.name] = attr.value
+      rawAttrs[attr.name] = attr.raw
+    }
+
+    const element: HtmlElement = {
+      name: token.name,
+      attrs,
+      rawAttrs,
+      start: token.start,
+      end: token.end,
+      tagEnd: token.end,
+      contentStart: token.end,
+      contentEnd: token.end,
+    }
+    elements.push(element)
+
+    if (RAW_TEXT_ELEMENTS.has(token.name) && !VOID_ELEMENTS.has(token.name)) {
+      // Unterminated raw text runs to the end of the document
+      element.end = html.length
+      open = element
+    }
+  }
+
+  return elements
+}
+
+/**
+ * Splice replacements into the source. Ranges must not overlap.
+ */
+export function replaceRanges(
+  html: string,
+  replacements: Array<{ start: number; end: number; content: string }>,
+): string {
+  let result = ''
+  let last = 0
+  for (const { start, end, content } of [...replacements].sort((a, b) => a.start - b.start)) {
+    result += html.slice(last, start) + content
+    last = end
+  }
+  return result + html.slice(last)
+}
+
+export function escapeAttributeValue(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Format attributes for a rewritten tag, re-emitting attributes that are
+ * unchanged from the source element verbatim.
+ */
+export function formatElementAttributes(
+  element: HtmlElement,
+  attrs: Record<string, string>,
+  exclude: string[],
+): string {
+  const parts: string[] = []
+  for (const [key, value] of Object.entries(attrs)) {
+    if (exclude.includes(key)) continue
+    if (key in element.rawAttrs && element.attrs[key] === value) {
+      parts.push(element.rawAttrs[key])
+    } else {
+      parts.push(value === '' ? key : `${key}="${escapeAttributeValue(value)}"`)
+    }
+  }
+  return parts.length > 0 ? ` ${parts.join(' ')}` : ''
+}
@@ -1,4 +1,6 @@
-type BunLoader = import('bun').Loader
+import { relative, resolve, sep } from 'node:path'
+import type { InlineFormat } from '../core'
+import { CSS_ASSET_EXTENSIONS } from './css-urls'
 
 type BunBuildConfig = import('bun').BuildConfigBase & Record<string, unknown>
 
@@ -11,29 +13,59 @@ type BunBuildLog = {
 export type BuildResult = {
   content: string | null
   warnings: string[]
+  /** Source map of `content`, when requested and produced */
+  map?: string | null
+  /** Files referenced by relative URLs in built CSS, named relative to the CSS */
+  assets?: Array<{ name: string; contents: Uint8Array }>
+  /** Source files the build read, when the bundler reports them */
+  files?: string[]
 }
 
-type BunBuildOutputFile = { kind: string; text: () => Promise<string> }
+type BunBuildOutputFile = { kind: string; path: string; text: string }
 
 type BunBuildOutput = {
   outputs: BunBuildOutputFile[]
   success: boolean
   logs: BunBuildLog[]
+  /** Input paths relative to the working directory (from the metafile) */
+  inputs?: string[]
 }
 
 const DEFAULT_MINIFY = { whitespace: true, syntax: true, identifiers: true }
 
-function pickEntryOutput(outputs: BunBuildOutputFile[]): BunBuildOutputFile | null {
+// Runs in a separate Bun process: calling Bun.build() from inside a plugin of a
+// running Bun.build() never resolves, so inline entries are built out of process.
+// String entries in `plugins` are imported as modules (default export).
+const BUN_BUILD_SCRIPT = `
+const config = JSON.parse(await Bun.stdin.text())
+config.metafile = true
+config.plugins = await Promise.all((config.plugins ?? []).map(async (spec) => (await import(spec)).default))
+const result = await Bun.build(config).catch((error) => ({
+  success: false,
+  outputs: [],
+  logs: error?.errors ?? [{ level: 'error', message: String(error?.message ?? error) }],
+}))
+const outputs = []
+for (const output of result.outputs) outputs.push({ kind: output.kind, path: output.path, text: await output.text() })
+const logs = result.logs.map((log) => ({ level: log.level, message: log.message ?? String(log) }))
+const inputs = result.metafile ? Object.keys(result.metafile.inputs) : undefined
+process.stdout.write(JSON.stringify({ success: result.success, outputs, logs, inputs }))
+`
+
+function pickEntryOutput(outputs: BunBuildOutputFile[], type: 'js' | 'css'): BunBuildOutputFile | null {
   if (outputs.length === 0) return null
+  if (type === 'css') {
+    const css = outputs.find((output) => output.path.endsWith('.css'))
+    if (css) return css
+  }
   const entry = outputs.find((output) => output.kind === 'entry-point')
   return entry ?? outputs[0]
 }
 
-function collectBuildWarnings(logs: BunBuildLog[]): string[] {
+function collectBuildWarnings(logs: BunBuildLog[], level = 'warning'): string[] {
   const warnings: string[] = []
   for (const log of logs) {
-    const level = log.level ?? ''
-    if (level !== 'warning') continue
+    if ((log.level ?? '') !== level) continue
     const text = log.message ?? log.text
     if (text) warnings.push(text)
   }
@@ -54,6 +86,11 @@ function toBunLoader(type: 'js' | 'css'): BunBuildConfig['loader'] {
   return undefined
 }
 
+/**
+ * Bundle, transpile and minify an inline entry with Bun.build() in a child
+ * Bun process. `overrides` (from `build.bun`) must be JSON-serializable;
+ * plugins are given as module specifiers, e.g. `['bun-plugin-tailwind']`.
+ */
 export async function buildWithBun(
   entry: string,
   type: 'js' | 'css',
@@ -63,14 +100,45 @@ export async function buildWithBun(
     return { content: null, warnings: ['Bun is not available in this environment'] }
   }
 
+  const config: BunBuildConfig = {
+    entrypoints: [entry],
+    target: 'browser',
+    format: type === 'js' ? 'iife' : 'esm',
+    minify: DEFAULT_MINIFY,
+    ...overrides,
+  }
+  const loader = toBunLoader(type)
+  if (loader) config.loader = { ...loader, ...config.loader }
+
   try {
-    const { readFile } = await import('node:fs/promises')
+    const child = Bun.spawn([process.execPath, '-e', BUN_BUILD_SCRIPT], {
+      stdin: new Blob([JSON.stringify(config)]),
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(child.stdout).text(),
+      new Response(child.stderr).text(),
+      child.exited,
+    ])
+    if (exitCode !== 0) {
+      return { content: null, warnings: [stderr.trim() || `Bun build process exited with code ${exitCode}`] }
+    }
+
+    const output: unknown = JSON.parse(stdout)
+    if (!isBunBuildOutput(output)) {
+      return { content: null, warnings: ['Unexpected output from Bun build process'] }
+    }
 
-    // Simply read and return the file content
-    // Bun.build() will handle transpilation and minification automatically
-    // This avoids any recursive build calls
-    const content = await readFile(entry, 'utf-8')
-    return { content, warnings: [] }
+    const warnings = collectBuildWarnings(output.logs)
+    if (!output.success) {
+      return { content: null, warnings: [...collectBuildWarnings(output.logs, 'error'), ...warnings] }
+    }
+    return {
+      content: pickEntryOutput(output.outputs, type)?.text ?? null,
+      warnings,
+      files: Array.isArray(output.inputs) ? output.inputs.map((input) => resolve(String(input))) : undefined,
+    }
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error)
     return { content: null, warnings: [message] }
@@ -85,6 +153,8 @@ type FarmResource = {
 type FarmCompiler = {
   compile: () => Promise<void>
   resourcesMap: () => Record<string, FarmResource>
+  /** Module paths of the last compile, relative to the root (Farm 1.x) */
+  watchModules?: () => string[]
 }
 
 type FarmConfig = {
@@ -100,51 +170,392 @@ type FarmConfig = {
   [key: string]: unknown
 }
 
+type FarmLogger = {
+  trace: (message: string) => void
+  debug: (message: string) => void
+  info: (message: string) => void
+  warn: (message: string) => void
+  error: (message: string | Error) => void
+}
+
 type FarmModule = {
-  createCompiler: (config: { config: FarmConfig }, logger?: unknown) => Promise<FarmCompiler>
+  createCompiler: (config: { config: FarmConfig }, logger?: FarmLogger) => Promise<FarmCompiler>
 }
 
+/**
+ * Compilers cached by entry, type and config. Each compiler also keeps the
+ * warnings of its current compile and a queue so compiles never overlap.
+ */
+export type FarmCompilerCache = Map<string, {
+  compiler: Promise<FarmCompiler>
+  warnings: string[]
+  queue: Promise<unknown>
+}>
+
 async function loadFarmModule(): Promise<FarmModule> {
   const farmModuleId: '@farmfe/core' = '@farmfe/core'
   return await import(farmModuleId)
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function createFarmConfig(entry: string, type: 'js' | 'css', overrides?: Record<string, unknown>): FarmConfig {
+  const config: FarmConfig = {
+    input: { inline: entry },
+    assets: { publicDir: '' },
+    minify: true,
+    mode: 'production',
+    output: {
+      format: 'esm',
+      targetEnv: 'browser',
+    },
+  }
+  if (type === 'css' && overrides?.plugins == null) {
+    config.plugins = []
+  }
+  // Nested option objects (e.g. `output`) are merged one level deep
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    const current = config[key]
+    config[key] = isPlainObject(current) && isPlainObject(value) ? { ...current, ...value } : value
+  }
+  return config
+}
+
+function createCollectingLogger(warnings: string[]): FarmLogger {
+  return {
+    trace() {},
+    debug() {},
+    info() {},
+    warn: (message) => warnings.push(message),
+    error: (message) => warnings.push(message instanceof Error ? message.message : message),
+  }
+}
+
 export async function buildWithFarm(
   entry: string,
   type: 'js' | 'css',
   overrides?: Record<string, unknown>,
+  cache?: FarmCompilerCache,
 ): Promise<BuildResult> {
+  // What Farm logged before a compile failed
+  let logged: string[] = []
   try {
-    const farm = await loadFarmModule()
-    const config: FarmConfig = {
-      input: { inline: entry },
-      assets: { publicDir: '' },
-      minify: true,
-      mode: 'production',
-      output: {
-        format: 'esm',
-        targetEnv: 'browser',
-      },
-    }
-    if (type === 'css' && overrides?.plugins == null) {
-      config.plugins = []
-    }
-    if (overrides) {
-      Object.assign(config, overrides)
+    const config = createFarmConfig(entry, type, overrides)
+    const key = JSON.stringify([entry, type, overrides ?? null])
+    let cached = cache?.get(key)
+    if (!cached) {
+      const warnings: string[] = []
+      const compiler = loadFarmModule().then((farm) => farm.createCompiler({ config }, createCollectingLogger(warnings)))
+      cached = { compiler, warnings, queue: Promise.resolve() }
+      cache?.set(key, cached)
+      // Don't keep a compiler that failed to start
+      compiler.catch(() => cache?.delete(key))
     }
-    const compiler = await farm.createCompiler({ config })
 
-    await compiler.compile()
-    const resources = compiler.resourcesMap()
+    const entryCache = cached
+    const run = entryCache.queue.then(async () => {
+      const compiler = await entryCache.compiler
+      entryCache.warnings.length = 0
+      try {
+        await compiler.compile()
+      } catch (error: unknown) {
+        logged = [...entryCache.warnings]
+        throw error
+      }
+      return { resources: compiler.resourcesMap(), warnings: [...entryCache.warnings], modules: compiler.watchModules?.() }
+    })
+    entryCache.queue = run.catch(() => {})
+    const { resources, warnings, modules } = await run
+
     const candidates: FarmResource[] = Object.values(resources)
     const preferredExt = type === 'css' ? '.css' : '.js'
     const preferred = candidates.find((resource) => resource.name.endsWith(preferredExt))
     const fallback = candidates.find((resource) => resource.name.endsWith('.css') || resource.name.endsWith('.js'))
     const selected = preferred ?? fallback
-    if (!selected) return { content: null, warnings: [] }
-    return { content: Buffer.from(selected.bytes).toString('utf-8'), warnings: [] }
+    if (!selected) return { content: null, warnings }
+    // Module ids may carry a query (e.g. `?inline`)
+    const files = modules && [...new Set([entry, ...modules.map((id) => resolve(id.replace(/\?.*$/, '')))])]
+    return { content: Buffer.from(selected.bytes).toString('utf-8'), warnings, files }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { content: null, warnings: [...logged, message] }
+  }
+}
+
+type EsbuildMessage = {
+  text: string
+  location?: { file: string; line: number; column: number } | null
+}
+
+type EsbuildOutputFile = { path: string; text: string; contents: Uint8Array }
+
+export type EsbuildBuildOptions = {
+  target?: string | string[]
+  define?: Record<string, string>
+  loader?: Record<string, string>
+  jsx?: string
+  jsxFactory?: string
+  jsxFragment?: string
+  jsxImportSource?: string
+  tsconfig?: string
+  alias?: Record<string, string>
+  plugins?: Array<{ name: string }>
+}
+
+export type EsbuildApi = {
+  // Method syntax: esbuild's own signature is generic over the options
+  build(options: Record<string, unknown>): Promise<{
+    outputFiles?: EsbuildOutputFile[]
+    warnings: EsbuildMessage[]
+    metafile?: { inputs: Record<string, unknown> }
+  }>
+}
+
+// Parent build options that affect how an inline entry compiles
+const INHERITED_ESBUILD_OPTIONS = [
+  'target', 'define', 'loader', 'jsx', 'jsxFactory', 'jsxFragment', 'jsxImportSource', 'tsconfig', 'alias',
+] as const
+
+function formatEsbuildMessage(message: EsbuildMessage): string {
+  const location = message.location
+  return location ? `${location.file}:${location.line}:${location.column}: ${message.text}` : message.text
+}
+
+/**
+ * Bundle an inline entry with a nested esbuild build into a browser-ready
+ * IIFE (JS, or an ES module with `format`) or a single stylesheet (CSS),
+ * inheriting the parent's loaders, target and define settings. Plugins named
+ * `excludePlugin` are dropped to avoid recursing into this plugin.
+ * With `sourcemap` the map is returned too.
+ */
+export async function buildWithEsbuild(
+  esbuild: EsbuildApi,
+  entry: string,
+  type: 'js' | 'css',
+  parentOptions: EsbuildBuildOptions,
+  excludePlugin: string,
+  options: { format?: InlineFormat; sourcemap?: boolean } = {},
+): Promise<BuildResult> {
+  const inherited: Record<string, unknown> = {}
+  for (const key of INHERITED_ESBUILD_OPTIONS) {
+    if (parentOptions[key] !== undefined) inherited[key] = parentOptions[key]
+  }
+
+  // Assets referenced by url() in CSS are returned separately (see `assets`)
+  const assetLoaders = type === 'css' ? Object.fromEntries(CSS_ASSET_EXTENSIONS.map((ext) => [ext, 'file'])) : {}
+
+  try {
+    const result = await esbuild.build({
+      ...inherited,
+      loader: { ...assetLoaders, ...parentOptions.loader },
+      entryPoints: [entry],
+      bundle: true,
+      write: false,
+      minify: true,
+      platform: 'browser',
+      format: type === 'js' ? options.format ?? 'iife' : undefined,
+      sourcemap: options.sourcemap ? 'external' : false,
+      // Output paths are only used to tell the JS and CSS outputs apart
+      outdir: 'inline-build',
+      plugins: (parentOptions.plugins ?? []).filter((plugin) => plugin.name !== excludePlugin),
+      logLevel: 'silent',
+      metafile: true,
+    })
+
+    const preferredExt = type === 'css' ? '.css' : '.js'
+    const output = result.outputFiles?.find((file) => file.path.endsWith(preferredExt))
+    const map = output && result.outputFiles?.find((file) => file.path === `${output.path}.map`)
+    const outdir = resolve('inline-build')
+    const assets = (result.outputFiles ?? [])
+      .filter((file) => !/\.(?:js|css)(?:\.map)?$/.test(file.path))
+      .map((file) => ({ name: relative(outdir, file.path).split(sep).join('/'), contents: file.contents }))
+    return {
+      content: output?.text ?? null,
+      warnings: result.warnings.map(formatEsbuildMessage),
+      map: map?.text ?? null,
+      assets,
+      // Inputs are relative to the working directory; namespaced ones are not files
+      files: Object.keys(result.metafile?.inputs ?? {})
+        .filter((input) => !/^[\w-]{2,}:/.test(input))
+        .map((input) => resolve(input)),
+    }
   } catch (error: unknown) {
+    const errors = (error as { errors?: EsbuildMessage[] } | null)?.errors
+    if (Array.isArray(errors) && errors.length > 0) {
+      return { content: null, warnings: errors.map(formatEsbuildMessage) }
+    }
     const message = error instanceof Error ? error.message : String(error)
     return { content: null, warnings: [message] }
   }
 }
+
+type ViteBuildChunk = {
+  type: 'chunk' | 'asset'
+  fileName: string
+  code?: string
+  map?: { toString: () => string } | null
+  modules?: Record<string, unknown>
+}
+
+type ViteModule = {
+  build: (config: Record<string, unknown>) => Promise<{ output: ViteBuildChunk[] } | Array<{ output: ViteBuildChunk[] }> | unknown>
+}
+
+/**
+ * Resolved Vite config fields that affect how an inline script compiles
+ */
+export type ViteInlineConfig = {
+  root: string
+  mode?: string
+  define?: Record<string, unknown>
+  resolve?: {
+    alias?: unknown
+    conditions?: string[]
+    mainFields?: string[]
+    extensions?: string[]
+    dedupe?: string[]
+    preserveSymlinks?: boolean
+  }
+  esbuild?: unknown
+  css?: unknown
+  envDir?: string | false
+  envPrefix?: string | string[]
+  build?: { target?: unknown; cssTarget?: unknown; assetsInlineLimit?: unknown }
+  /** Resolved plugins: Vite's own are added again by the nested build */
+  plugins?: ReadonlyArray<{ name?: string }>
+}
+
+/** A module of the dev server's module graph */
+export type ViteDevModule = { file: string | null; ssrImportedModules: Set<ViteDevModule> }
+
+/**
+ * The parts of a Vite dev server used to load inline targets
+ */
+export type ViteDevServer = {
+  config: ViteInlineConfig
+  ssrLoadModule: (url: string) => Promise<Record<string, unknown>>
+  moduleGraph: { getModuleById: (id: string) => ViteDevModule | undefined }
+}
+
+async function loadViteModule(): Promise<ViteModule> {
+  const viteModuleId: 'vite' = 'vite'
+  return await import(viteModuleId)
+}
+
+// Plugins Vite adds to every build (named `vite:*`, plus its alias and commonjs plugins)
+const VITE_INTERNAL_PLUGIN = /^(?:vite|builtin|native):|^(?:alias|commonjs)$/
+
+/**
+ * Bundle an inline script with a nested Vite build into one file with no
+ * imports, sharing the plugins, resolve, define, CSS and build target settings
+ * of `config`. Plugins named `excludePlugin` are left out.
+ * `watchFiles` lists the modules the script was built from.
+ */
+export async function buildWithVite(
+  config: ViteInlineConfig,
+  entry: string,
+  options: { format?: InlineFormat; minify?: boolean; sourcemap?: boolean | 'inline'; excludePlugin?: string } = {},
+): Promise<BuildResult & { watchFiles: string[] }> {
+  try {
+    const vite = await loadViteModule()
+    const { alias, conditions, mainFields, extensions, dedupe, preserveSymlinks } = config.resolve ?? {}
+    const result = await vite.build({
+      configFile: false,
+      root: config.root,
+      mode: config.mode,
+      plugins: config.plugins?.filter((plugin) => {
+        return !plugin.name || (plugin.name !== options.excludePlugin && !VITE_INTERNAL_PLUGIN.test(plugin.name))
+      }),
+      define: config.define,
+      resolve: { alias, conditions, mainFields, extensions, dedupe, preserveSymlinks },
+      esbuild: config.esbuild,
+      css: config.css,
+      envDir: config.envDir,
+      envPrefix: config.envPrefix,
+      publicDir: false,
+      logLevel: 'silent',
+      build: {
+        target: config.build?.target,
+        cssTarget: config.build?.cssTarget,
+        assetsInlineLimit: config.build?.assetsInlineLimit,
+        write: false,
+        minify: options.minify ?? true,
+        sourcemap: options.sourcemap ?? false,
+        emptyOutDir: false,
+        copyPublicDir: false,
+        modulePreload: false,
+        rollupOptions: {
+          input: entry,
+          output: { format: options.format ?? 'iife', inlineDynamicImports: true },
+        },
+      },
+    })
+
+    const outputs = (Array.isArray(result) ? result : [result]) as Array<{ output?: ViteBuildChunk[] }>
+    const chunk = outputs.flatMap((output) => output.output ?? []).find((output) => output.type === 'chunk')
+    return {
+      content: chunk?.code ?? null,
+      warnings: [],
+      map: chunk?.map?.toString() ?? null,
+      watchFiles: chunk?.modules ? Object.keys(chunk.modules).filter((id) => !id.startsWith('\0')) : [entry],
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { content: null, warnings: [message], watchFiles: [entry] }
+  }
+}
+
+type RollupLikeOutputChunk = { type: 'chunk' | 'asset'; code?: string; map?: { toString: () => string } | null }
+
+type RollupLikeBuild = {
+  generate: (options: Record<string, unknown>) => Promise<{ output: RollupLikeOutputChunk[] }>
+  close?: () => Promise<void>
+  /** Files the build read: an array in Rollup, a promise of one in Rolldown */
+  watchFiles?: string[] | Promise<string[]>
+}
+
+/**
+ * `rollup()` from `rollup`, or `rolldown()` from `rolldown`
+ */
+export type RollupLikeBundleFn = (options: Record<string, unknown>) => Promise<RollupLikeBuild>
+
+type RollupLikeWarning = { message?: string } | string
+
+/**
+ * Bundle a JS entry with a nested Rollup/Rolldown build into one file with no
+ * imports: dynamic imports are inlined and shared dependencies duplicated.
+ * `plugins` are the parent build's plugins, minus those named `excludePlugin`.
+ */
+export async function buildWithRollup(
+  bundleFn: RollupLikeBundleFn,
+  entry: string,
+  format: InlineFormat,
+  plugins: Array<{ name?: string }>,
+  excludePlugin: string,
+  sourcemap = false,
+): Promise<BuildResult> {
+  const warnings: string[] = []
+  try {
+    const build = await bundleFn({
+      input: entry,
+      plugins: plugins.filter((plugin) => plugin.name !== excludePlugin),
+      onwarn: (warning: RollupLikeWarning) => {
+        warnings.push(typeof warning === 'string' ? warning : warning.message ?? String(warning))
+      },
+    })
+    try {
+      const { output } = await build.generate({ format, inlineDynamicImports: true, sourcemap })
+      const chunk = output.find((file) => file.type === 'chunk')
+      const watchFiles = await build.watchFiles
+      const files = Array.isArray(watchFiles) ? watchFiles.filter((id) => !id.startsWith('\0')) : undefined
+      return { content: chunk?.code ?? null, warnings, map: chunk?.map?.toString() ?? null, files }
+    } finally {
+      await build.close?.()
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { content: null, warnings: [...warnings, message] }
+  }
+}
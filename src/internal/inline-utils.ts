@@ -1,9 +1,22 @@
-import { resolve, dirname, basename } from 'node:path'
-import type { InlineEntry } from '../core'
+import { createHash } from 'node:crypto'
+import { resolve, dirname, basename, relative, sep } from 'node:path'
+import type { InlineEntry, InlineVia, TransformOptions } from '../core'
+import { checkInlineBudget, externalReference, parseSize, resolveMaxSize } from './budget'
+import { attachGeneratedSourceMap, attachSourceMap, sourceUrlFor } from './sourcemap'
+import { rebaseSourceCss } from './css-urls'
+import { flattenCssImports } from './css-imports'
+import type { ReportCollector } from './report'
+import { inlineFailure, reportFailure, reportWarning, type DiagnosticChannels } from './diagnostics'
+import { applyTransformContent } from './transform-content'
+import { minifyContent, type Minifier } from './minify'
 
 export const INLINE_QUERY = '?__inline_build'
+/** Query written in user code to import built content, e.g. `./card.css?inline-source` */
+export const DEFAULT_PUBLIC_QUERY = 'inline-source'
 export const CSS_LOADER_PREFIX = '\0inline-css:'
 export const BUILD_PREFIX = '\0inline-build:'
+/** Imports of files the `assets` option excludes, loaded as an empty string */
+export const EXCLUDED_ID = '\0inline-excluded'
 
 export function resolveInlinePath(
   filePath: string,
@@ -19,6 +32,39 @@ export function resolveInlinePath(
   return resolve(root, filePath)
 }
 
+/**
+ * Marker standing in for an inline import until the output phase. Derived from
+ * the file and its options, so rebuilds of the same source give the same output
+ * and every import of a file shares one marker.
+ */
+export function inlineMarker(
+  filePath: string,
+  type: 'js' | 'css',
+  fields: Partial<InlineEntry> = {},
+  root = process.cwd(),
+): string {
+  const path = relative(root, filePath).split(sep).join('/')
+  const key = JSON.stringify([path, type, fields.format ?? null, fields.maxSize ?? null, fields.raw ?? false])
+  return `__INLINE_BUILD_${createHash('sha256').update(key).digest('hex').slice(0, 16)}__`
+}
+
+/**
+ * Registry entries whose marker appears in `outputs`. The registry outlives a
+ * build (cached modules are not resolved again), so each build or compilation
+ * only handles the markers in its own output.
+ */
+export function entriesInOutput(
+  inlineRegistry: Map<string, InlineEntry>,
+  outputs: Iterable<string>,
+): Map<string, InlineEntry> {
+  const texts = [...outputs]
+  const entries = new Map<string, InlineEntry>()
+  for (const [marker, entry] of inlineRegistry) {
+    if (texts.some((text) => text.includes(marker))) entries.set(marker, entry)
+  }
+  return entries
+}
+
 export function getInlineFileType(filePath: string): 'js' | 'css' {
   return /\.css$/i.test(filePath) ? 'css' : 'js'
 }
@@ -26,6 +72,7 @@ export function getInlineFileType(filePath: string): 'js' | 'css' {
 type RollupChunk = {
   type: 'chunk'
   code: string
+  map?: { toString: () => string } | null
   viteMetadata?: { importedCss?: Set<string> }
 }
 
@@ -36,20 +83,86 @@ type RollupAsset = {
 
 export type RollupOutput = RollupChunk | RollupAsset
 
+export interface InlineRequest {
+  filePath: string
+  /** Per-import parameters appended after the inline query, e.g. `maxSize` */
+  params: URLSearchParams
+}
+
+/**
+ * Build an inline import specifier: `<path>?__inline_build[&key=value...]`
+ */
+export function formatInlineRequest(filePath: string, params?: Record<string, string | undefined>): string {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (value != null) search.set(key, value)
+  }
+  const extra = search.toString()
+  return `${filePath}${INLINE_QUERY}${extra ? `&${extra}` : ''}`
+}
+
+/**
+ * Parse an id produced by `formatInlineRequest` (or one using another `query`),
+ * or return `null` for other ids
+ */
+export function parseInlineRequest(id: string, query = INLINE_QUERY): InlineRequest | null {
+  const index = id.lastIndexOf(query)
+  if (index === -1) return null
+  const rest = id.slice(index + query.length)
+  if (rest !== '' && !rest.startsWith('&')) return null
+  return { filePath: id.slice(0, index), params: new URLSearchParams(rest.slice(1)) }
+}
+
+/**
+ * The public import query for the `query` option, with its leading `?`
+ */
+export function resolvePublicQuery(options: TransformOptions | undefined): string {
+  return `?${(options?.query ?? DEFAULT_PUBLIC_QUERY).replace(/^\?/, '')}`
+}
+
+/**
+ * Parse an import of an inline target: either the internal query emitted by
+ * `transformJsx` or the public one written in user code. Settings may also
+ * come before the public query (`./card.css?maxSize=8kb&inline-source`), the
+ * only form a TypeScript module declaration can match besides the bare query.
+ */
+export function parseInlineImport(id: string, publicQuery: string): InlineRequest | null {
+  const request = parseInlineRequest(id) ?? parseInlineRequest(id, publicQuery)
+  if (request) return request
+  const flag = `&${publicQuery.slice(1)}`
+  const index = id.lastIndexOf('?')
+  if (index === -1 || !id.endsWith(flag)) return null
+  return { filePath: id.slice(0, index), params: new URLSearchParams(id.slice(index + 1, -flag.length)) }
+}
+
+/**
+ * Entry fields carried by the request parameters
+ */
+export function entryFromRequest(request: InlineRequest): Pick<InlineEntry, 'maxSize' | 'format' | 'raw'> {
+  const format = request.params.get('format')
+  return {
+    maxSize: parseSize(request.params.get('maxSize') ?? undefined),
+    format: format === 'esm' || format === 'iife' ? format : undefined,
+    raw: request.params.has('raw') || undefined,
+  }
+}
+
+/**
+ * Find the CSS asset produced for a CSS wrapper chunk
+ */
 export function extractCssFromWrapper(
   bundle: Record<string, RollupOutput>,
   entry: InlineEntry,
   wrapperChunk: RollupChunk,
-): string | null {
+): { fileName: string; content: string } | null {
   const importedCss = wrapperChunk.viteMetadata?.importedCss
   if (importedCss && importedCss instanceof Set && importedCss.size > 0) {
     for (const cssName of importedCss) {
       const cssAsset = bundle[cssName]
       if (cssAsset?.type === 'asset') {
         const content = typeof cssAsset.source === 'string' ? cssAsset.source : cssAsset.source.toString()
-        delete bundle[cssName]
         importedCss.delete(cssName)
-        return content
+        return { fileName: cssName, content }
       }
     }
   }
@@ -59,51 +172,174 @@ export function extractCssFromWrapper(
     if (asset.type !== 'asset' || !assetName.endsWith('.css')) continue
     if (assetName.includes(base)) {
       const content = typeof asset.source === 'string' ? asset.source : asset.source.toString()
-      delete bundle[assetName]
-      return content
+      return { fileName: assetName, content }
     }
   }
   return null
 }
 
+export interface ReplaceMarkersHooks extends DiagnosticChannels {
+  getFileName: (refId: string) => string
+  readFile: (filePath: string) => Promise<string | null>
+  /** Emit content as a standalone asset and return its output file name */
+  emitAsset: (entry: InlineEntry, content: string) => string
+  /** Emit a file referenced by a stylesheet read from disk and return its output file name */
+  emitReferencedAsset: (filePath: string, source: Uint8Array) => string
+  /** Public URL prefix of output files, used for over-budget references */
+  base?: string
+  /** Project root, for the `sourceURL` of inlined chunks */
+  root?: string
+  /** Passed to `transformContent` as `ctx.framework` */
+  framework?: string
+  /** Bundler minifier for content read from disk with `minify` */
+  minify?: Minifier
+  /** Write a source map file next to the other output files */
+  emitSourceMap?: (fileName: string, source: string) => void
+  /** Files read from disk for an entry, watched from the next rebuild on */
+  onReadFiles?: (filePath: string, files: string[]) => void
+  /** Build a JS entry into one self-contained file (see `InlineEntry.format`) */
+  buildEntry?: (entry: InlineEntry) => Promise<{ content: string | null; map?: string | null; warnings?: string[] }>
+  transformOptions?: TransformOptions
+  onReplace?: (host: string, entry: InlineEntry, content: string) => void
+  report?: ReportCollector
+}
+
+/**
+ * Replace the markers in `bundle` with their content; returns the markers found
+ */
 export async function replaceInlineMarkersInBundle(
   bundle: Record<string, RollupOutput>,
   inlineRegistry: Map<string, InlineEntry>,
-  getFileName: (refId: string) => string,
-  readFile: (filePath: string) => Promise<string | null>,
-) {
-  for (const [marker, entry] of inlineRegistry) {
+  hooks: ReplaceMarkersHooks,
+): Promise<string[]> {
+  const options = hooks.transformOptions
+  const chunks = Object.values(bundle).flatMap((chunk) => (chunk.type === 'chunk' ? [chunk.code] : []))
+  const entries = entriesInOutput(inlineRegistry, chunks)
+
+  for (const [marker, entry] of entries) {
     let content: string | null = null
+    let map: string | null = null
+    // Output file holding the same content, reused if it has to stay external
+    let outputName: string | null = null
+    let via: InlineVia = 'raw'
 
-    if (entry.refId) {
+    const fail = (fields: { via: InlineVia; fallback: boolean }, reason?: string) => {
+      for (const [fileName, chunk] of Object.entries(bundle)) {
+        if (chunk.type === 'chunk' && chunk.code.includes(marker)) {
+          hooks.report?.add(fileName, { source: entry.filePath, marker, type: entry.type, ...fields, status: 'failed' }, null)
+        }
+      }
+      reportFailure(inlineFailure(entry, hooks.root, reason), options, hooks)
+    }
+
+    if (entry.type === 'js' && hooks.buildEntry) {
+      via = 'build'
+      const built = await hooks.buildEntry(entry)
+      // The source on disk is not runnable as is (TypeScript, bare imports): report the build
+      if (built.content == null) {
+        fail({ via, fallback: false }, built.warnings?.[built.warnings.length - 1])
+        continue
+      }
+      content = built.content
+      map = built.map ?? null
+    } else if (entry.refId) {
+      via = 'chunk'
       try {
-        const fileName = getFileName(entry.refId)
+        const fileName = hooks.getFileName(entry.refId)
         const chunk = bundle[fileName]
         if (chunk?.type === 'chunk') {
           if (entry.type === 'js') {
             content = chunk.code
+            // Taken now: the chunk and its map are deleted once inlined
+            map = chunk.map?.toString() ?? null
+            outputName = fileName
           } else {
-            content = extractCssFromWrapper(bundle, entry, chunk)
+            const css = extractCssFromWrapper(bundle, entry, chunk)
+            if (css) {
+              content = css.content
+              outputName = css.fileName
+            }
           }
-          delete bundle[fileName]
         }
       } catch {
         // ignore
       }
     }
 
+    // Built content comes with its own map; content read from disk may reference one
+    const generated = content != null
     if (content == null) {
-      content = await readFile(entry.filePath)
+      if (entry.type === 'css') {
+        // Without a built stylesheet, its local @imports are flattened into it
+        const flattened = await flattenCssImports(entry.filePath, (message) => {
+          reportWarning({ message, file: entry.filePath }, hooks)
+        }).catch(() => null)
+        if (flattened) {
+          hooks.onReadFiles?.(entry.filePath, flattened.files)
+          // Relative URLs in a stylesheet read from disk point next to the source file
+          content = await rebaseSourceCss(flattened.css, entry.filePath, {
+            publicPath: hooks.base,
+            root: hooks.root,
+            inlineLimit: parseSize(options?.cssAssetsInlineLimit),
+            emitAsset: hooks.emitReferencedAsset,
+          })
+        }
+      } else {
+        content = await hooks.readFile(entry.filePath)
+      }
+    }
+    const record = { source: entry.filePath, marker, type: entry.type, via: generated ? via : 'raw', fallback: !generated && via !== 'raw' } as const
+    if (content == null) {
+      fail(record)
+      continue
+    }
+    if (!generated && options?.minify && !entry.raw) content = await minifyContent(content, entry.type, hooks.minify)
+    const host = Object.keys(bundle).find((fileName) => {
+      const chunk = bundle[fileName]
+      return chunk.type === 'chunk' && chunk.code.includes(marker)
+    })
+    content = await applyTransformContent(content, { type: entry.type, filePath: entry.filePath, host, framework: hooks.framework }, options)
+
+    let replacement = content
+    const withinBudget = checkInlineBudget(content, entry.filePath, entry.maxSize ?? resolveMaxSize(undefined, options), options, hooks, { file: entry.importer })
+    if (withinBudget) {
+      // Inlined: the emitted copy is no longer needed
+      if (entry.refId) delete bundle[hooks.getFileName(entry.refId)]
+      if (outputName) {
+        delete bundle[outputName]
+        // Rollup 4 lists the chunk's map as its own asset; it is re-emitted below if still wanted
+        delete bundle[`${outputName}.map`]
+      }
+
+      const mode = options?.sourcemap
+      if (mode) {
+        const sourceUrl = sourceUrlFor(entry.filePath, hooks.root)
+        replacement = generated
+          ? attachGeneratedSourceMap(content, entry.type, mode, sourceUrl, map, (source) => {
+              const mapName = `${outputName ?? basename(entry.filePath)}.map`
+              hooks.emitSourceMap?.(mapName, source)
+              return `${hooks.base ?? '/'}${mapName}`
+            })
+          : await attachSourceMap(content, entry.type, mode, { path: entry.filePath, sourceUrl }, hooks.readFile)
+      }
+    } else {
+      // Over budget: keep the emitted JS chunk / CSS asset and reference it instead
+      if (entry.refId && entry.type === 'css') delete bundle[hooks.getFileName(entry.refId)]
+      outputName ??= hooks.emitAsset(entry, content)
+      replacement = externalReference(entry.type, `${hooks.base ?? '/'}${outputName}`, entry.format)
     }
-    if (content == null) continue
 
-    for (const chunk of Object.values(bundle)) {
+    for (const [fileName, chunk] of Object.entries(bundle)) {
       if (chunk.type === 'chunk' && chunk.code.includes(marker)) {
         chunk.code = chunk.code.replace(
           new RegExp(`"${marker}"`, 'g'),
-          JSON.stringify(content),
+          JSON.stringify(replacement),
         )
+        hooks.onReplace?.(fileName, entry, replacement)
+        hooks.report?.add(fileName, { ...record, status: withinBudget ? 'inlined' : 'external' }, content)
       }
     }
   }
+
+  return [...entries.keys()]
 }
@@ -0,0 +1,62 @@
+import { readFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import type { JsxEmitter, JsxRuntime } from '../core'
+
+const IMPORT_SOURCE_RUNTIMES: Array<[RegExp, JsxRuntime]> = [
+  [/^solid-js(?:\/|$)/, 'solid'],
+  [/^preact(?:\/|$)/, 'preact'],
+  [/^hono(?:\/|$)/, 'hono'],
+  [/^vue(?:\/|$)/, 'vue'],
+]
+
+/**
+ * Pick the runtime for a file: by its type (`.astro`, Vue SFC), then by its
+ * `@jsxImportSource` pragma or the project's `importSource`. Defaults to React.
+ */
+export function detectJsxRuntime(code: string, id?: string, importSource?: string): JsxRuntime {
+  if (id) {
+    const path = id.replace(/\?.*$/, '')
+    if (/\.astro$/i.test(path)) return 'astro'
+    if (/\.vue$/i.test(path)) return 'vue'
+  }
+
+  const source = /@jsxImportSource\s+(\S+)/.exec(code)?.[1] ?? importSource
+  if (source) {
+    for (const [pattern, runtime] of IMPORT_SOURCE_RUNTIMES) {
+      if (pattern.test(source)) return runtime
+    }
+  }
+  return 'react'
+}
+
+const EMITTERS: Record<JsxRuntime, JsxEmitter> = {
+  react: ({ tag, attributes, content }) => htmlProp(tag, attributes, `dangerouslySetInnerHTML={{__html: ${content}}}`),
+  hono: ({ tag, attributes, content }) => htmlProp(tag, attributes, `dangerouslySetInnerHTML={{__html: ${content}}}`),
+  preact: ({ tag, attributes, content }) => htmlProp(tag, attributes, `dangerouslySetInnerHTML={{__html: ${content}}}`),
+  solid: ({ tag, attributes, content }) => htmlProp(tag, attributes, `innerHTML={${content}}`),
+  vue: ({ tag, attributes, content }) => htmlProp(tag, attributes, `innerHTML={${content}}`),
+  // Astro would otherwise bundle the <script> and scope the <style> itself
+  astro: ({ tag, attributes, content }) =>
+    htmlProp(tag, attributes, `${/(?:^|\s)is:inline\b/.test(attributes) ? '' : 'is:inline '}set:html={${content}}`),
+}
+
+function htmlProp(tag: 'script' | 'style', attributes: string, prop: string): string {
+  return tag === 'script' ? `<script${attributes} ${prop}></script>` : `<style${attributes} ${prop} />`
+}
+
+export function jsxEmitter(runtime: JsxRuntime | JsxEmitter): JsxEmitter {
+  return typeof runtime === 'function' ? runtime : EMITTERS[runtime]
+}
+
+/**
+ * `compilerOptions.jsxImportSource` of the project's `tsconfig.json`, if any
+ */
+export async function readTsconfigImportSource(root = process.cwd()): Promise<string | undefined> {
+  try {
+    const tsconfig = await readFile(resolve(root, 'tsconfig.json'), 'utf-8')
+    // tsconfig allows comments, so look for the key instead of parsing JSON
+    return /"jsxImportSource"\s*:\s*"([^"]+)"/.exec(tsconfig)?.[1]
+  } catch {
+    return undefined
+  }
+}
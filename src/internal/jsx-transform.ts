@@ -0,0 +1,635 @@
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { dirname, resolve } from 'node:path'
+import type * as BabelParser from '@babel/parser'
+import type MagicString from 'magic-string'
+import { findHtmlElements } from './html-tokenizer'
+
+const requireModule = createRequire(import.meta.url)
+
+/**
+ * Load an optional peer dependency of the JSX and Astro transform, which only
+ * modules with inline tags need
+ */
+function requireTransformDependency<T>(id: string): T {
+  try {
+    return requireModule(id)
+  } catch {
+    throw new Error(`[unplugin-inline-source] Inlining tags in JSX and Astro files needs \`${id}\`: add it to your dependencies`)
+  }
+}
+
+/**
+ * Babel parses what the host bundler's `this.parse` can't: TSX outside
+ * Rolldown, modules in bundlers without `this.parse`, Astro frontmatter (a
+ * top-level `return`) and attribute expressions
+ */
+export function loadBabelParser(): typeof BabelParser {
+  return requireTransformDependency('@babel/parser')
+}
+
+export function loadMagicString(): typeof MagicString {
+  return requireTransformDependency('magic-string')
+}
+
+/**
+ * Loose view of a Babel or ESTree node: both carry `type` and `start`/`end`
+ * offsets, and JSX nodes have the same shape in both.
+ */
+export interface AstNode {
+  type: string
+  start: number
+  end: number
+  [key: string]: unknown
+}
+
+export type JsxParse = (code: string) => unknown
+
+type Binding =
+  | { kind: 'const'; init: AstNode; scope: Scope; module: ModuleInfo }
+  | { kind: 'import'; source: string; imported: string; module: ModuleInfo }
+  | { kind: 'unknown'; what: string }
+
+export interface Scope {
+  bindings: Map<string, Binding>
+  parent?: Scope
+}
+
+type ExportBinding = { local: string } | { from: string; imported: string } | { expression: AstNode }
+
+export interface ModuleInfo {
+  id?: string
+  scope: Scope
+  exports: Map<string, ExportBinding>
+}
+
+export type Evaluated = { value: string } | { reason: string }
+
+export type LoadModule = (specifier: string, importer: string) => { id: string; code: string } | null
+
+const SKIPPED_KEYS = new Set(['loc', 'range', 'extra', 'leadingComments', 'trailingComments', 'innerComments', 'typeAnnotation', 'returnType', 'typeParameters'])
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod', 'ClassMethod', 'ClassPrivateMethod'])
+
+export function isNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && typeof (value as AstNode).type === 'string'
+}
+
+function child(node: AstNode, key: string): AstNode | undefined {
+  const value = node[key]
+  return isNode(value) ? value : undefined
+}
+
+function children(node: AstNode, key: string): AstNode[] {
+  const value = node[key]
+  return Array.isArray(value) ? value.filter(isNode) : []
+}
+
+function babelPlugins(id: string | undefined): Array<'jsx' | 'typescript'> {
+  return id && /\.[cm]?jsx?(?:$|\?)/.test(id) ? ['jsx'] : ['jsx', 'typescript']
+}
+
+/**
+ * Parse a module with the host bundler's parser when given, falling back to Babel
+ */
+export function parseModule(code: string, id: string | undefined, parse?: JsxParse): AstNode {
+  if (parse) {
+    try {
+      const ast = parse(code)
+      if (isNode(ast)) return ast.type === 'File' ? (child(ast, 'program') ?? ast) : ast
+    } catch {
+      // e.g. no JSX or TypeScript support: Babel handles both
+    }
+  }
+  const options = { sourceType: 'module', plugins: babelPlugins(id), errorRecovery: true } as const
+  try {
+    return loadBabelParser().parse(code, options).program as unknown as AstNode
+  } catch (e) {
+    // Markup snippets of sibling elements (not a module) parse as one fragment
+    let program: AstNode
+    try {
+      program = loadBabelParser().parse(`<>${code}</>`, options).program as unknown as AstNode
+    } catch {
+      throw e
+    }
+    shiftOffsets(program, -'<>'.length)
+    return program
+  }
+}
+
+function shiftOffsets(node: AstNode, by: number): void {
+  node.start += by
+  node.end += by
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc') continue
+    for (const item of Array.isArray(value) ? value : [value]) if (isNode(item)) shiftOffsets(item, by)
+  }
+}
+
+/**
+ * Parse Astro frontmatter: module code that may `return` at the top level
+ */
+export function parseFrontmatter(code: string): AstNode {
+  return loadBabelParser().parse(code, {
+    sourceType: 'module',
+    plugins: ['typescript'],
+    allowReturnOutsideFunction: true,
+    errorRecovery: true,
+  }).program as unknown as AstNode
+}
+
+export function parseAttributeExpression(code: string): AstNode {
+  return loadBabelParser().parseExpression(code, { plugins: ['jsx', 'typescript'] }) as unknown as AstNode
+}
+
+function patternNames(pattern: AstNode | undefined, names: string[] = []): string[] {
+  if (!pattern) return names
+  switch (pattern.type) {
+    case 'Identifier':
+      names.push(pattern.name as string)
+      break
+    case 'AssignmentPattern':
+      patternNames(child(pattern, 'left'), names)
+      break
+    case 'RestElement':
+      patternNames(child(pattern, 'argument'), names)
+      break
+    case 'TSParameterProperty':
+      patternNames(child(pattern, 'parameter'), names)
+      break
+    case 'ArrayPattern':
+      for (const element of children(pattern, 'elements')) patternNames(element, names)
+      break
+    case 'ObjectPattern':
+      for (const property of children(pattern, 'properties')) {
+        patternNames(property.type === 'RestElement' ? property : child(property, 'value'), names)
+      }
+      break
+  }
+  return names
+}
+
+function declareVariables(declaration: AstNode, scope: Scope, module: ModuleInfo): string[] {
+  const kind = declaration.kind as string
+  const declared: string[] = []
+  for (const declarator of children(declaration, 'declarations')) {
+    const id = child(declarator, 'id')
+    const init = child(declarator, 'init')
+    if (id?.type === 'Identifier' && kind === 'const' && init) {
+      scope.bindings.set(id.name as string, { kind: 'const', init, scope, module })
+      declared.push(id.name as string)
+      continue
+    }
+    for (const name of patternNames(id)) {
+      scope.bindings.set(name, { kind: 'unknown', what: `a \`${kind}\` variable` })
+      declared.push(name)
+    }
+  }
+  return declared
+}
+
+function declareStatement(statement: AstNode, scope: Scope, module: ModuleInfo): string[] {
+  switch (statement.type) {
+    case 'VariableDeclaration':
+      return declareVariables(statement, scope, module)
+    case 'FunctionDeclaration':
+    case 'ClassDeclaration': {
+      const name = child(statement, 'id')?.name as string | undefined
+      if (name) scope.bindings.set(name, { kind: 'unknown', what: statement.type === 'ClassDeclaration' ? 'a class' : 'a function' })
+      return name ? [name] : []
+    }
+    default:
+      return []
+  }
+}
+
+function moduleExportName(node: AstNode | undefined): string {
+  return (node?.type === 'Identifier' ? node.name : node?.value) as string
+}
+
+/**
+ * Collect the top-level bindings and exports of a module
+ */
+export function createModuleInfo(program: AstNode, id?: string): ModuleInfo {
+  const module: ModuleInfo = { id, scope: { bindings: new Map() }, exports: new Map() }
+  const { scope } = module
+
+  for (const statement of children(program, 'body')) {
+    switch (statement.type) {
+      case 'ImportDeclaration': {
+        if (statement.importKind === 'type') break
+        const source = child(statement, 'source')?.value as string
+        for (const specifier of children(statement, 'specifiers')) {
+          const local = child(specifier, 'local')?.name as string
+          if (specifier.type === 'ImportNamespaceSpecifier') {
+            scope.bindings.set(local, { kind: 'unknown', what: 'a namespace import' })
+          } else {
+            const imported = specifier.type === 'ImportDefaultSpecifier' ? 'default' : moduleExportName(child(specifier, 'imported'))
+            scope.bindings.set(local, { kind: 'import', source, imported, module })
+          }
+        }
+        break
+      }
+      case 'ExportNamedDeclaration': {
+        const declaration = child(statement, 'declaration')
+        if (declaration) {
+          for (const name of declareStatement(declaration, scope, module)) module.exports.set(name, { local: name })
+        }
+        const source = child(statement, 'source')?.value as string | undefined
+        for (const specifier of children(statement, 'specifiers')) {
+          const exported = moduleExportName(child(specifier, 'exported'))
+          const local = moduleExportName(child(specifier, 'local'))
+          module.exports.set(exported, source ? { from: source, imported: local } : { local })
+        }
+        break
+      }
+      case 'ExportDefaultDeclaration': {
+        const declaration = child(statement, 'declaration')
+        if (declaration && !/Declaration$/.test(declaration.type)) module.exports.set('default', { expression: declaration })
+        else if (declaration) declareStatement(declaration, scope, module)
+        break
+      }
+      default:
+        declareStatement(statement, scope, module)
+    }
+  }
+
+  return module
+}
+
+function describeNode(node: AstNode): string {
+  switch (node.type) {
+    case 'CallExpression':
+    case 'NewExpression':
+      return 'a function call'
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return 'a property access'
+    case 'ConditionalExpression':
+    case 'LogicalExpression':
+      return 'a conditional expression'
+    case 'JSXEmptyExpression':
+      return 'empty'
+    default:
+      return `a dynamic expression (${node.type})`
+  }
+}
+
+/**
+ * Evaluates attribute values that are known at build time: string literals,
+ * template literals and `+` of those, and constants declared with `const` in
+ * scope or imported from a module that `loadModule` can read.
+ */
+export function createStaticEvaluator(loadModule: LoadModule | undefined, parse?: JsxParse) {
+  const modules = new Map<string, ModuleInfo | null>()
+  // Bindings and exports being evaluated, to stop on cycles
+  const active = new Set<unknown>()
+
+  function evaluate(node: AstNode, scope: Scope, module: ModuleInfo): Evaluated {
+    switch (node.type) {
+      case 'StringLiteral':
+        return { value: node.value as string }
+      case 'NumericLiteral':
+        return { value: String(node.value) }
+      case 'Literal':
+        if (typeof node.value === 'string' || typeof node.value === 'number') return { value: String(node.value) }
+        return { reason: `is ${describeNode(node)}` }
+      case 'TemplateLiteral': {
+        const quasis = children(node, 'quasis')
+        const expressions = children(node, 'expressions')
+        let value = ''
+        for (let i = 0; i < quasis.length; i++) {
+          const cooked = (quasis[i].value as { cooked?: string | null }).cooked
+          if (cooked == null) return { reason: 'contains an invalid escape sequence' }
+          value += cooked
+          if (i < expressions.length) {
+            const part = evaluate(expressions[i], scope, module)
+            if ('reason' in part) return part
+            value += part.value
+          }
+        }
+        return { value }
+      }
+      case 'BinaryExpression': {
+        const left = child(node, 'left')
+        const right = child(node, 'right')
+        if (node.operator !== '+' || !left || !right) return { reason: `is ${describeNode(node)}` }
+        const l = evaluate(left, scope, module)
+        if ('reason' in l) return l
+        const r = evaluate(right, scope, module)
+        return 'reason' in r ? r : { value: l.value + r.value }
+      }
+      case 'ParenthesizedExpression':
+      case 'TSAsExpression':
+      case 'TSSatisfiesExpression':
+      case 'TSNonNullExpression':
+      case 'TSTypeAssertion': {
+        const expression = child(node, 'expression')
+        return expression ? evaluate(expression, scope, module) : { reason: `is ${describeNode(node)}` }
+      }
+      case 'Identifier':
+        return evaluateIdentifier(node.name as string, scope, module)
+      default:
+        return { reason: `is ${describeNode(node)}` }
+    }
+  }
+
+  function evaluateIdentifier(name: string, scope: Scope, module: ModuleInfo): Evaluated {
+    let current: Scope | undefined = scope
+    while (current && !current.bindings.has(name)) current = current.parent
+    const binding = current?.bindings.get(name)
+    if (!binding) return { reason: `refers to \`${name}\`, which is not declared in this module` }
+
+    switch (binding.kind) {
+      case 'unknown':
+        return { reason: `refers to \`${name}\`, ${binding.what}` }
+      case 'const': {
+        if (active.has(binding.init)) return { reason: `refers to \`${name}\`, which is defined in terms of itself` }
+        active.add(binding.init)
+        try {
+          const result = evaluate(binding.init, binding.scope, binding.module)
+          return 'reason' in result ? { reason: `refers to \`${name}\`, which ${result.reason}` } : result
+        } finally {
+          active.delete(binding.init)
+        }
+      }
+      case 'import': {
+        const result = evaluateExport(binding.source, binding.imported, binding.module)
+        return 'reason' in result ? { reason: `refers to \`${name}\` imported from '${binding.source}', which ${result.reason}` } : result
+      }
+    }
+  }
+
+  function evaluateExport(source: string, name: string, importer: ModuleInfo): Evaluated {
+    const module = load(source, importer)
+    if (!module) return { reason: 'cannot be read at build time' }
+
+    const key = `${module.id}#${name}`
+    if (active.has(key)) return { reason: 'is a circular re-export' }
+    const binding = module.exports.get(name)
+    if (!binding) return { reason: `does not export \`${name}\` as a constant` }
+
+    active.add(key)
+    try {
+      if ('local' in binding) return evaluateIdentifier(binding.local, module.scope, module)
+      if ('from' in binding) return evaluateExport(binding.from, binding.imported, module)
+      return evaluate(binding.expression, module.scope, module)
+    } finally {
+      active.delete(key)
+    }
+  }
+
+  function load(source: string, importer: ModuleInfo): ModuleInfo | null {
+    if (!loadModule || !importer.id) return null
+    const loaded = loadModule(source, importer.id)
+    if (!loaded) return null
+    if (modules.has(loaded.id)) return modules.get(loaded.id)!
+
+    let module: ModuleInfo | null = null
+    try {
+      module = createModuleInfo(parseModule(loaded.code, loaded.id, parse), loaded.id)
+    } catch {
+      // Unparsable: its exports are unknown
+    }
+    modules.set(loaded.id, module)
+    return module
+  }
+
+  return { evaluate }
+}
+
+/**
+ * Walk a program, calling `visit` for JSX elements with the scope they are in.
+ * When `visit` returns `true` the element's children are skipped.
+ */
+export function walkJsx(
+  program: AstNode,
+  module: ModuleInfo,
+  visit: (element: AstNode, scope: Scope) => boolean,
+): void {
+  function walk(node: AstNode, scope: Scope): void {
+    if (node.type === 'JSXElement' && visit(node, scope)) return
+
+    if (FUNCTION_TYPES.has(node.type)) {
+      const inner: Scope = { bindings: new Map(), parent: scope }
+      for (const param of children(node, 'params')) {
+        for (const name of patternNames(param)) inner.bindings.set(name, { kind: 'unknown', what: 'a function parameter' })
+      }
+      const id = child(node, 'id')
+      if (node.type === 'FunctionExpression' && id) inner.bindings.set(id.name as string, { kind: 'unknown', what: 'a function' })
+      walkChildren(node, inner)
+      return
+    }
+
+    if (node.type === 'BlockStatement' || node.type === 'StaticBlock') {
+      const inner: Scope = { bindings: new Map(), parent: scope }
+      for (const statement of children(node, 'body')) declareStatement(statement, inner, module)
+      walkChildren(node, inner)
+      return
+    }
+
+    if (node.type === 'CatchClause' || /^For(?:In|Of)?Statement$/.test(node.type)) {
+      const inner: Scope = { bindings: new Map(), parent: scope }
+      const declaration = child(node, node.type === 'CatchClause' ? 'param' : node.type === 'ForStatement' ? 'init' : 'left')
+      const ids = declaration?.type === 'VariableDeclaration'
+        ? children(declaration, 'declarations').map((declarator) => child(declarator, 'id'))
+        : [declaration]
+      for (const id of ids) {
+        for (const name of patternNames(id)) inner.bindings.set(name, { kind: 'unknown', what: 'a loop or catch variable' })
+      }
+      walkChildren(node, inner)
+      return
+    }
+
+    walkChildren(node, scope)
+  }
+
+  function walkChildren(node: AstNode, scope: Scope): void {
+    for (const key of Object.keys(node)) {
+      if (SKIPPED_KEYS.has(key)) continue
+      const value = node[key]
+      if (Array.isArray(value)) {
+        for (const item of value) if (isNode(item)) walk(item, scope)
+      } else if (isNode(value)) {
+        walk(value, scope)
+      }
+    }
+  }
+
+  walkChildren(program, module.scope)
+}
+
+const MODULE_EXTENSIONS = ['', '.ts', '.tsx', '.mts', '.js', '.jsx', '.mjs', '/index.ts', '/index.tsx', '/index.js']
+
+/**
+ * Read a module imported with a relative specifier, trying the usual extensions
+ */
+export function loadRelativeModule(specifier: string, importer: string): { id: string; code: string } | null {
+  if (!/^\.{1,2}\//.test(specifier)) return null
+  const base = resolve(dirname(importer.replace(/\?.*$/, '')), specifier)
+  for (const extension of MODULE_EXTENSIONS) {
+    const candidate = base + extension
+    if (!existsSync(candidate) || !statSync(candidate).isFile()) continue
+    try {
+      return { id: candidate, code: readFileSync(candidate, 'utf-8') }
+    } catch {
+      return null
+    }
+  }
+  // `./config.js` written for a `config.ts` source
+  const withoutJs = base.replace(/\.[cm]?jsx?$/, '')
+  if (withoutJs !== base) {
+    for (const extension of ['.ts', '.tsx', '.mts']) {
+      if (existsSync(withoutJs + extension)) return { id: withoutJs + extension, code: readFileSync(withoutJs + extension, 'utf-8') }
+    }
+  }
+  return null
+}
+
+export interface InlineTagAttribute {
+  /** Lowercased attribute name (`is:inline` for namespaced ones) */
+  name: string
+  /** Source text of the attribute */
+  raw: string
+  start: number
+  end: number
+  /** Evaluate the value; `''` for attributes without one */
+  value: () => Evaluated
+}
+
+export interface InlineTag {
+  name: 'script' | 'link'
+  /** Range of the whole element */
+  start: number
+  end: number
+  attributes: InlineTagAttribute[]
+}
+
+export interface CollectOptions {
+  id?: string
+  parse?: JsxParse
+  loadModule?: LoadModule
+}
+
+function jsxAttributeName(name: AstNode | undefined): string {
+  if (name?.type === 'JSXNamespacedName') {
+    return `${child(name, 'namespace')?.name}:${child(name, 'name')?.name}`.toLowerCase()
+  }
+  return String(name?.name ?? '').toLowerCase()
+}
+
+/**
+ * Find `<script>`/`<link>` JSX elements carrying `attr`, with their attribute
+ * values evaluated in the scope of the element
+ */
+export function collectJsxTags(code: string, attr: string, options: CollectOptions = {}): InlineTag[] {
+  const program = parseModule(code, options.id, options.parse)
+  const module = createModuleInfo(program, options.id)
+  const evaluator = createStaticEvaluator(options.loadModule, options.parse)
+  const tags: InlineTag[] = []
+
+  walkJsx(program, module, (element, scope) => {
+    const opening = child(element, 'openingElement')
+    const tagName = opening && child(opening, 'name')
+    if (tagName?.type !== 'JSXIdentifier' || (tagName.name !== 'script' && tagName.name !== 'link')) return false
+
+    const attributes: InlineTagAttribute[] = []
+    for (const attribute of children(opening!, 'attributes')) {
+      // Spread attributes are kept as they are
+      if (attribute.type !== 'JSXAttribute') continue
+      const value = child(attribute, 'value')
+      attributes.push({
+        name: jsxAttributeName(child(attribute, 'name')),
+        raw: code.slice(attribute.start, attribute.end),
+        start: attribute.start,
+        end: attribute.end,
+        value: () => {
+          if (!value) return { value: '' }
+          if (value.type !== 'JSXExpressionContainer') return evaluator.evaluate(value, scope, module)
+          const expression = child(value, 'expression')
+          return expression ? evaluator.evaluate(expression, scope, module) : { reason: 'is empty' }
+        },
+      })
+    }
+    if (!attributes.some((attribute) => attribute.name === attr)) return false
+
+    // Keep every attribute that is not consumed, spreads included
+    for (const attribute of children(opening!, 'attributes')) {
+      if (attribute.type === 'JSXAttribute') continue
+      attributes.push({
+        name: '',
+        raw: code.slice(attribute.start, attribute.end),
+        start: attribute.start,
+        end: attribute.end,
+        value: () => ({ reason: 'is a spread' }),
+      })
+    }
+    attributes.sort((a, b) => a.start - b.start)
+    tags.push({ name: tagName.name, start: element.start, end: element.end, attributes })
+    return true
+  })
+
+  return tags
+}
+
+const FRONTMATTER_RE = /^(\uFEFF?\s*---[^\S\r\n]*\r?\n)([\s\S]*?)^---[^\S\r\n]*(?:\r?\n|$)/m
+
+/**
+ * Find `<script>`/`<link>` elements carrying `attr` in an Astro component.
+ * Expression values (`src={url}`) are evaluated against the frontmatter.
+ * `importsAt` is where imports go: the start of the frontmatter, if there is one.
+ */
+export function collectAstroTags(
+  code: string,
+  attr: string,
+  options: CollectOptions = {},
+): { tags: InlineTag[]; importsAt: number | null } {
+  const frontmatter = FRONTMATTER_RE.exec(code)
+  const importsAt = frontmatter && frontmatter.index === 0 ? frontmatter[1].length : null
+  const templateStart = importsAt == null ? 0 : frontmatter![0].length
+
+  let program: AstNode = { type: 'Program', start: 0, end: 0, body: [] }
+  if (importsAt != null) {
+    try {
+      program = parseFrontmatter(frontmatter![2])
+    } catch {
+      // Constants stay unknown; literal values still work
+    }
+  }
+  const module = createModuleInfo(program, options.id)
+  const evaluator = createStaticEvaluator(options.loadModule, options.parse)
+  const template = code.slice(templateStart)
+  const tags: InlineTag[] = []
+
+  for (const element of findHtmlElements(template, ['script', 'link'], { expressions: true })) {
+    if (!(attr in element.attrs)) continue
+    const attributes: InlineTagAttribute[] = []
+    let offset = element.start + templateStart + element.name.length + 1
+    for (const [name, raw] of Object.entries(element.rawAttrs)) {
+      const start = code.indexOf(raw, offset)
+      offset = start + raw.length
+      const expression = /^[^=]*=\s*\{([\s\S]*)\}$/.exec(raw)?.[1]
+      attributes.push({
+        name,
+        raw,
+        start,
+        end: start + raw.length,
+        value: () => {
+          if (expression == null) return { value: element.attrs[name] }
+          try {
+            return evaluator.evaluate(parseAttributeExpression(expression), module.scope, module)
+          } catch {
+            return { reason: 'is not a valid expression' }
+          }
+        },
+      })
+    }
+    tags.push({
+      name: element.name as 'script' | 'link',
+      start: element.start + templateStart,
+      end: element.end + templateStart,
+      attributes,
+    })
+  }
+
+  return { tags, importsAt }
+}
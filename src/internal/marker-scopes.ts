@@ -0,0 +1,49 @@
+import type { InlineEntry } from '../core'
+
+/** Scope of bundlers without Vite environments */
+export const DEFAULT_SCOPE = 'default'
+
+/**
+ * Track which builds still use each inline registry entry. A scope is one
+ * build pipeline sharing the plugin (a Vite environment, else the bundler):
+ * it claims the markers it resolves, loads or outputs, and once its build ends
+ * entries no scope claims are dropped. Cached modules are neither resolved nor
+ * loaded again by every bundler, so their markers are claimed from the output.
+ */
+export function createMarkerScopes(inlineRegistry: Map<string, InlineEntry>) {
+  const claims = new Map<string, Set<string>>()
+
+  function claim(scope: string, marker: string): void {
+    let scopes = claims.get(marker)
+    if (!scopes) claims.set(marker, (scopes = new Set()))
+    scopes.add(scope)
+  }
+
+  return {
+    claim,
+
+    /** Forget the markers a scope used in its last build */
+    start(scope: string): void {
+      for (const scopes of claims.values()) scopes.delete(scope)
+    },
+
+    /**
+     * Claim the markers a build output, then drop the entries no scope claims.
+     * Returns the source files no remaining entry refers to.
+     */
+    prune(scope: string, used: Iterable<string>): string[] {
+      for (const marker of used) claim(scope, marker)
+      const dropped = new Set<string>()
+      for (const [marker, entry] of inlineRegistry) {
+        if (claims.get(marker)?.size) continue
+        inlineRegistry.delete(marker)
+        claims.delete(marker)
+        dropped.add(entry.filePath)
+      }
+      for (const entry of inlineRegistry.values()) dropped.delete(entry.filePath)
+      return [...dropped]
+    },
+  }
+}
+
+export type MarkerScopes = ReturnType<typeof createMarkerScopes>
@@ -0,0 +1,235 @@
+/**
+ * Bundler minifier for the `minify` option. Returns `null` for content it does
+ * not handle, which then gets esbuild or the built-in stripper.
+ */
+export type Minifier = (content: string, type: 'js' | 'css') => Promise<string | null> | string | null
+
+type EsbuildTransform = (
+  input: string,
+  options: Record<string, unknown>,
+) => Promise<{ code: string }>
+
+/**
+ * Minify content inlined as read from disk: with `minifier` when given, else
+ * with esbuild when it is installed. Content neither handles (or that fails to
+ * parse) only gets comments and whitespace stripped.
+ */
+export async function minifyContent(content: string, type: 'js' | 'css', minifier?: Minifier): Promise<string> {
+  for (const minify of [minifier, esbuildMinifier()]) {
+    if (!minify) continue
+    try {
+      const minified = await minify(content, type)
+      if (minified != null) return minified
+    } catch {
+      // The stripper below never fails
+    }
+  }
+  return type === 'css' ? stripCss(content) : stripJs(content)
+}
+
+/**
+ * esbuild's `transform`, from the running build or the `esbuild` package
+ */
+export function esbuildMinifier(transform?: EsbuildTransform): Minifier {
+  return async (content, type) => {
+    const run = transform ?? (await loadModule<{ transform?: EsbuildTransform }>('esbuild'))?.transform
+    if (!run) return null
+    const { code } = await run(content, { loader: type, minify: true, legalComments: 'inline' })
+    return code.trim()
+  }
+}
+
+/**
+ * `Bun.Transpiler` for scripts; stylesheets are left to the stripper
+ */
+export function bunMinifier(): Minifier {
+  return (content, type) => {
+    const bun = (globalThis as { Bun?: { Transpiler: new (options: Record<string, unknown>) => { transformSync: (code: string) => string } } }).Bun
+    if (type !== 'js' || !bun) return null
+    return new bun.Transpiler({ loader: 'js', minifyWhitespace: true }).transformSync(content).trim()
+  }
+}
+
+/**
+ * Lightning CSS for stylesheets (an optional Vite dependency), Vite's esbuild
+ * for scripts
+ */
+export function viteMinifier(): Minifier {
+  const esbuild = esbuildMinifier()
+  return async (content, type) => {
+    if (type === 'js') return esbuild(content, type)
+    type LightningCss = { transform: (options: Record<string, unknown>) => { code: Uint8Array } }
+    const lightningcss = await loadModule<LightningCss>('lightningcss')
+    if (!lightningcss) return null
+    const { code } = lightningcss.transform({ filename: 'inline.css', code: Buffer.from(content), minify: true })
+    return Buffer.from(code).toString('utf-8')
+  }
+}
+
+async function loadModule<T>(id: string): Promise<T | null> {
+  try {
+    const mod: { default?: T } & T = await import(id)
+    return mod.default ?? mod
+  } catch {
+    return null
+  }
+}
+
+// Keywords after which `/` starts a regular expression, not a division
+const REGEX_KEYWORDS = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'instanceof', 'new', 'void', 'delete', 'throw', 'yield', 'await'])
+// A space next to these is never needed between JS tokens
+const JS_TIGHT = new Set([...'{}()[];,:=<>?!&|'])
+// ... and between CSS tokens, on the side given
+const CSS_TIGHT_BEFORE = new Set([...'{};,>(:'])
+const CSS_TIGHT_AFTER = new Set([...'{};,>)!'])
+
+function skipQuoted(code: string, start: number): number {
+  const quote = code[start]
+  let i = start + 1
+  while (i < code.length && code[i] !== quote && code[i] !== '\n') i += code[i] === '\\' ? 2 : 1
+  return i + 1
+}
+
+function skipTemplate(code: string, start: number): number {
+  let i = start + 1
+  while (i < code.length && code[i] !== '`') {
+    if (code[i] === '\\') i += 2
+    else if (code[i] === '$' && code[i + 1] === '{') i = skipExpression(code, i + 2)
+    else i++
+  }
+  return i + 1
+}
+
+// From after `${` to after its closing `}`
+function skipExpression(code: string, start: number): number {
+  let depth = 1
+  let i = start
+  while (i < code.length) {
+    const c = code[i]
+    if (c === '"' || c === "'") i = skipQuoted(code, i)
+    else if (c === '`') i = skipTemplate(code, i)
+    else {
+      if (c === '{') depth++
+      if (c === '}' && --depth === 0) return i + 1
+      i++
+    }
+  }
+  return i
+}
+
+function skipRegex(code: string, start: number): number {
+  let i = start + 1
+  let inClass = false
+  while (i < code.length && code[i] !== '\n') {
+    const c = code[i]
+    if (c === '\\') i++
+    else if (c === '[') inClass = true
+    else if (c === ']') inClass = false
+    else if (c === '/' && !inClass) break
+    i++
+  }
+  i++
+  while (i < code.length && /[a-z]/i.test(code[i])) i++
+  return i
+}
+
+/**
+ * Drop JS comments (except `/*!` license comments) and redundant whitespace.
+ * Line breaks are kept so automatic semicolon insertion still applies.
+ */
+export function stripJs(code: string): string {
+  let out = ''
+  // Whitespace seen since the last token: none, a space, or a line break
+  let gap: '' | ' ' | '\n' = ''
+  let i = 0
+
+  const emit = (token: string) => {
+    if (gap === '\n' && out) out += '\n'
+    else if (gap === ' ' && out && !JS_TIGHT.has(out[out.length - 1]) && !JS_TIGHT.has(token[0])) out += ' '
+    gap = ''
+    out += token
+  }
+
+  while (i < code.length) {
+    const c = code[i]
+    const next = code[i + 1]
+    if (/\s/.test(c)) {
+      if (c === '\n') gap = '\n'
+      else if (!gap) gap = ' '
+      i++
+    } else if (c === '/' && next === '/') {
+      while (i < code.length && code[i] !== '\n') i++
+    } else if (c === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2)
+      const stop = end === -1 ? code.length : end + 2
+      const comment = code.slice(i, stop)
+      if (code[i + 2] === '!') emit(comment)
+      else if (comment.includes('\n')) gap = '\n'
+      else if (!gap) gap = ' '
+      i = stop
+    } else if (c === '"' || c === "'" || c === '`') {
+      const end = c === '`' ? skipTemplate(code, i) : skipQuoted(code, i)
+      emit(code.slice(i, end))
+      i = end
+    } else if (c === '/' && startsRegex(out)) {
+      const end = skipRegex(code, i)
+      emit(code.slice(i, end))
+      i = end
+    } else {
+      let end = i + 1
+      if (/[\w$]/.test(c)) while (end < code.length && /[\w$]/.test(code[end])) end++
+      emit(code.slice(i, end))
+      i = end
+    }
+  }
+  return out
+}
+
+function startsRegex(out: string): boolean {
+  const trimmed = out.trimEnd()
+  if (!trimmed) return true
+  // `i++ / 2`: a regex can't follow `++` or `--`
+  if (/(?:\+\+|--)$/.test(trimmed)) return false
+  const last = trimmed[trimmed.length - 1]
+  if (/[\w$]/.test(last)) return REGEX_KEYWORDS.has(/[\w$]+$/.exec(trimmed)![0])
+  return !/[)\]]/.test(last)
+}
+
+/**
+ * Drop CSS comments (except `/*!` license comments), redundant whitespace and
+ * the last semicolon of each block
+ */
+export function stripCss(css: string): string {
+  let out = ''
+  let space = false
+  let i = 0
+
+  const emit = (token: string) => {
+    if (space && out && !CSS_TIGHT_BEFORE.has(out[out.length - 1]) && !CSS_TIGHT_AFTER.has(token[0])) out += ' '
+    if (token === '}' && out.endsWith(';')) out = out.slice(0, -1)
+    space = false
+    out += token
+  }
+
+  while (i < css.length) {
+    const c = css[i]
+    if (/\s/.test(c)) {
+      space = true
+      i++
+    } else if (c === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2)
+      const stop = end === -1 ? css.length : end + 2
+      if (css[i + 2] === '!') emit(css.slice(i, stop))
+      else space = true
+      i = stop
+    } else if (c === '"' || c === "'") {
+      const end = skipQuoted(css, i)
+      emit(css.slice(i, end))
+      i = end
+    } else {
+      emit(c)
+      i++
+    }
+  }
+  return out
+}
@@ -0,0 +1,66 @@
+import { isAbsolute } from 'node:path'
+import { brotliCompressSync, gzipSync } from 'node:zlib'
+import type { InlineReportEntry, TransformOptions } from '../core'
+import { formatSize } from './budget'
+import { sourceUrlFor } from './sourcemap'
+
+const DEFAULT_REPORT_FILE = 'inline-report.json'
+
+export type ReportRecord = Omit<InlineReportEntry, 'host' | 'size' | 'gzipSize' | 'brotliSize' | 'fallback'> & {
+  fallback?: boolean
+}
+
+/**
+ * Collect inline operations per host file for the `report` option
+ */
+export function createReportCollector(report: TransformOptions['report'], root = process.cwd()) {
+  const settings = typeof report === 'object' ? report : report ? { fileName: typeof report === 'string' ? report : undefined } : null
+  const entries: InlineReportEntry[] = []
+
+  return {
+    enabled: settings != null,
+
+    add(host: string, record: ReportRecord, content: string | null) {
+      if (!settings) return
+      const bytes = Buffer.from(content ?? '', 'utf-8')
+      entries.push({
+        host,
+        ...record,
+        // Files read by the plugin are absolute; keep the report machine-independent
+        source: isAbsolute(record.source) ? sourceUrlFor(record.source, root) : record.source,
+        fallback: record.fallback ?? false,
+        size: bytes.length,
+        gzipSize: content == null ? 0 : gzipSync(bytes).length,
+        brotliSize: content == null ? 0 : brotliCompressSync(bytes).length,
+      })
+    },
+
+    /** Report file name and JSON source (logging the table with `print`), or `null` when disabled */
+    emit(hostName: (host: string) => string = (host) => host): { fileName: string; source: string } | null {
+      if (!settings) return null
+      const renamed = entries.map((entry) => ({ ...entry, host: hostName(entry.host) }))
+      if (settings.print) console.log(formatReportTable(renamed))
+      return { fileName: settings.fileName ?? DEFAULT_REPORT_FILE, source: JSON.stringify(renamed, null, 2) }
+    },
+  }
+}
+
+export type ReportCollector = ReturnType<typeof createReportCollector>
+
+function formatReportTable(entries: InlineReportEntry[]): string {
+  const rows = [
+    ['host', 'source', 'via', 'size', 'gzip', 'brotli', 'status'],
+    ...entries.map((entry) => [
+      entry.host,
+      entry.source,
+      entry.fallback ? `${entry.via} (fallback)` : entry.via,
+      formatSize(entry.size),
+      formatSize(entry.gzipSize),
+      formatSize(entry.brotliSize),
+      entry.status,
+    ]),
+  ]
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)))
+  const lines = rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd())
+  return [`[unplugin-inline-source] Inline report (${entries.length} entries)`, ...lines.map((line) => `  ${line}`)].join('\n')
+}
@@ -0,0 +1,108 @@
+import { posix, relative, sep } from 'node:path'
+
+export type SourcemapMode = 'inline' | 'external' | 'hidden'
+
+const JS_MAP_COMMENT_RE = /(?:\r?\n)?\/\/[#@] sourceMappingURL=(\S+)\s*$/
+const CSS_MAP_COMMENT_RE = /(?:\r?\n)?\/\*[#@] sourceMappingURL=(\S+?)\s*\*\/\s*$/
+
+function formatComment(type: 'js' | 'css', key: string, value: string): string {
+  return type === 'js' ? `//# ${key}=${value}` : `/*# ${key}=${value} */`
+}
+
+/**
+ * Remove a trailing `sourceMappingURL` comment, returning the URL it held
+ */
+export function extractSourceMapUrl(content: string, type: 'js' | 'css'): { content: string; url: string | null } {
+  const match = (type === 'js' ? JS_MAP_COMMENT_RE : CSS_MAP_COMMENT_RE).exec(content)
+  if (!match) return { content, url: null }
+  return { content: content.slice(0, match.index), url: match[1] }
+}
+
+export function sourceMapDataUri(map: string): string {
+  return `data:application/json;charset=utf-8;base64,${Buffer.from(map, 'utf-8').toString('base64')}`
+}
+
+/**
+ * Resolve a map URL found in a file against that file's own path or URL
+ */
+export function resolveSourceMapUrl(from: string, url: string): string {
+  if (/^(?:[a-z][a-z\d+.-]*:|\/)/i.test(url)) return url
+  return posix.join(posix.dirname(from.split(sep).join('/')), url)
+}
+
+/**
+ * `sourceURL` naming an original file: its path relative to the project root
+ */
+export function sourceUrlFor(filePath: string, root = process.cwd()): string {
+  return relative(root, filePath).split(sep).join('/')
+}
+
+/**
+ * Append `sourceURL` and, when given, `sourceMappingURL` comments to inlined content
+ */
+export function appendSourceMapComments(
+  content: string,
+  type: 'js' | 'css',
+  sourceUrl: string,
+  mapUrl: string | null,
+): string {
+  let result = content.endsWith('\n') ? content : `${content}\n`
+  result += formatComment(type, 'sourceURL', sourceUrl)
+  if (mapUrl) result += `\n${formatComment(type, 'sourceMappingURL', mapUrl)}`
+  return result
+}
+
+/**
+ * Rewrite the source map reference of content read from a file so it still
+ * works once inlined. `path` is where the content came from (used to resolve a
+ * relative map URL and read the map); `sourceUrl` names it in devtools.
+ *
+ * - `inline`: the map is read with `readMap` and embedded as a data URI
+ * - `external`: the map URL is made relative to the page instead of the file
+ * - `hidden`: the reference is dropped
+ */
+export async function attachSourceMap(
+  content: string,
+  type: 'js' | 'css',
+  mode: SourcemapMode,
+  source: { path: string; sourceUrl: string },
+  readMap: (path: string) => Promise<string | null>,
+): Promise<string> {
+  const extracted = extractSourceMapUrl(content, type)
+  let mapUrl: string | null = null
+
+  if (extracted.url && mode !== 'hidden') {
+    mapUrl = resolveSourceMapUrl(source.path, extracted.url)
+    if (mode === 'inline' && !mapUrl.startsWith('data:')) {
+      const map = await readMap(mapUrl)
+      mapUrl = map == null ? mapUrl : sourceMapDataUri(map)
+    }
+  }
+
+  return appendSourceMapComments(extracted.content, type, source.sourceUrl, mapUrl)
+}
+
+/**
+ * Attach a map generated by the bundler for inlined content.
+ * `external` and `hidden` maps are written with `emitMap` and its returned URL
+ * is only referenced in `external` mode.
+ */
+export function attachGeneratedSourceMap(
+  content: string,
+  type: 'js' | 'css',
+  mode: SourcemapMode,
+  sourceUrl: string,
+  map: string | null,
+  emitMap: (map: string) => string,
+): string {
+  const stripped = extractSourceMapUrl(content, type).content
+  let mapUrl: string | null = null
+  if (map != null) {
+    if (mode === 'inline') mapUrl = sourceMapDataUri(map)
+    else {
+      const url = emitMap(map)
+      if (mode === 'external') mapUrl = url
+    }
+  }
+  return appendSourceMapComments(stripped, type, sourceUrl, mapUrl)
+}
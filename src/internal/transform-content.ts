@@ -0,0 +1,12 @@
+import type { TransformContentContext, TransformOptions } from '../core'
+
+/**
+ * Run the `transformContent` option on content about to be inlined
+ */
+export async function applyTransformContent(
+  content: string,
+  context: TransformContentContext,
+  options: TransformOptions | undefined,
+): Promise<string> {
+  return options?.transformContent ? await options.transformContent(content, context) : content
+}
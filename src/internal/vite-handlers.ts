@@ -1,114 +1,434 @@
+import { existsSync } from 'node:fs'
 import { readFile } from 'node:fs/promises'
-import { resolve } from 'node:path'
-import { transformHtml, collectMatches, parseAttributes, formatAttributes, type TransformOptions, type InlineEntry } from '../core'
-import { INLINE_QUERY, CSS_LOADER_PREFIX, BUILD_PREFIX, getInlineFileType, resolveInlinePath, replaceInlineMarkersInBundle, type RollupOutput } from './inline-utils'
+import { resolve, basename, extname, posix, relative, sep } from 'node:path'
+import { transformHtml, escapeScriptContent, type TransformOptions, type InlineEntry, type InlineFormat } from '../core'
+import { computeCspHash, createCspCollector, cspDirectiveFor, mergeCspMeta, withCspNonce, type CspCollector, type CspDirective } from './csp'
+import { checkInlineBudget, parseSize, resolveMaxSize } from './budget'
+import { resolveMode, shouldInline } from './conditions'
+import { createFilter } from './filter'
+import { createReportCollector, type ReportCollector } from './report'
+import { excludedImport, inlineFailure, reportFailure, reportWarning, toUnpluginMessage, type DiagnosticChannels } from './diagnostics'
+import { applyTransformContent } from './transform-content'
+import { viteMinifier } from './minify'
+import { findHtmlElements, formatElementAttributes, replaceRanges, type HtmlElement } from './html-tokenizer'
+import { buildWithVite, type ViteDevModule, type ViteDevServer, type ViteInlineConfig } from './inline-builders'
+import type { MarkerScopes } from './marker-scopes'
+import { attachGeneratedSourceMap, attachSourceMap, sourceUrlFor } from './sourcemap'
+import { joinCssUrl, rebaseCssUrls } from './css-urls'
+import {
+  CSS_LOADER_PREFIX,
+  BUILD_PREFIX,
+  EXCLUDED_ID,
+  getInlineFileType,
+  resolveInlinePath,
+  parseInlineRequest,
+  parseInlineImport,
+  resolvePublicQuery,
+  formatInlineRequest,
+  entryFromRequest,
+  replaceInlineMarkersInBundle,
+  type RollupOutput,
+} from './inline-utils'
+
+const HMR_EVENT = 'unplugin-inline-source:update'
+const HMR_STYLE_ATTR = 'data-inline-source'
+
+const PLUGIN_NAME = 'unplugin-inline-source'
+
+// Loader chunk bundling one stylesheet of an HTML page on its own
+const PAGE_STYLE_PREFIX = '\0inline-source-page-style:'
+// Stands in for an inlined tag until the page is emitted
+const PAGE_TAG_PLACEHOLDER = /<!--inline-source:(\d+)-->/g
+
+// Stylesheets, TypeScript/JSX and JS modules go through Vite; plain scripts
+// (and anything else, e.g. `.map` files) are read as-is
+function needsViteBuild(filePath: string, content: string): boolean {
+  if (/\.(?:css|[cm]?ts|[jt]sx)$/i.test(filePath)) return true
+  return /\.[cm]?js$/i.test(filePath) && /^\s*(?:import|export)\b|\bimport\s*[.(]/m.test(content)
+}
+
+function devStyleId(filePath: string, root: string): string {
+  return `/${relative(root, filePath).split(sep).join('/')}`
+}
 
 export function createViteHtmlHandlers(
   attr: string,
   options: TransformOptions | undefined,
   inlineRegistry: Map<string, InlineEntry>,
-  registerMarker: (filePath: string, type: 'js' | 'css') => string,
+  registerMarker: (filePath: string, type: 'js' | 'css', fields?: Partial<InlineEntry>, scope?: string) => string,
+  markerScopes: MarkerScopes,
 ) {
-  const inlineScripts = new Set<string>()
-  const inlineStyles = new Set<string>()
+  const attrName = attr.toLowerCase()
+  const publicQuery = resolvePublicQuery(options)
+  const isAllowedAsset = createFilter(options?.assets)
+  // Build mode: inlined page tags by placeholder index. Vite merges the
+  // scripts and stylesheets of a page into one chunk and one asset, so scripts
+  // get a nested build and stylesheets a loader chunk of their own.
+  const pageTags: PageTag[] = []
+  // Build mode: page tags whose loader chunks are emitted and files watched
+  let emittedPageTags = 0
+  // Build mode: loader chunk of each page stylesheet
+  const pageStyleRefs = new Map<string, string>()
 
   let isBuild = false
+  // Settings shared with the nested builds of inline scripts
+  let inlineBuildConfig: ViteInlineConfig = { root: process.cwd() }
+  let minifyInline = true
   let projectRoot = process.cwd()
+  let base = '/'
+  // Options with Vite's mode, for attribute conditions
+  let pageOptions: TransformOptions | undefined = options
+  let isHtmlIncluded = createFilter(options?.html)
+  let devServer: ViteDevServer | undefined
 
-  type ViteChunk = { type: 'chunk'; code: string; modules?: Record<string, unknown> }
+  type ViteChunk = { type: 'chunk'; code: string; map?: { toString: () => string } | null; modules?: Record<string, unknown> }
   type ViteOutput = RollupOutput | ViteChunk
+  type PageTag = { type: 'js' | 'css'; filePath: string; maxSize: number | undefined; element: HtmlElement; attrs: Record<string, string> }
+  /** Build output of the page tags, shared by the pages of one bundle */
+  type PageOutput = {
+    styleAssets: Map<string, string>
+    externalStyleAssets: Set<string>
+    buildScript: (filePath: string, format: InlineFormat) => Promise<{ content: string | null; map?: string | null; warnings: string[] }>
+    emitAsset: (name: string, source: string) => string
+  }
 
-  function inlineBundledContent(bundle: Record<string, ViteOutput>, html: string): string {
-    const chunkNamesToInline = new Set<string>()
-    const assetNamesToInline = new Set<string>()
+  // Dev mode: files inlined into HTML pages, for HMR
+  const devInlined = new Map<string, { type: 'js' | 'css'; pages: Set<string> }>()
+  // Dev mode: source files each inline target was built from
+  const devWatchFiles = new Map<string, string[]>()
+  // Dev mode: nested builds of scripts, reused until one of their modules changes
+  const devBuilds = new Map<string, Promise<Awaited<ReturnType<typeof buildWithVite>>>>()
+  // Build mode: modules of each script's last nested build, watched when its marker loads
+  const buildWatchFiles = new Map<string, string[]>()
 
-    for (const [name, chunk] of Object.entries(bundle)) {
-      if (chunk.type === 'chunk' && 'modules' in chunk && chunk.modules) {
-        for (const modId of Object.keys(chunk.modules)) {
-          if (inlineScripts.has(modId)) {
-            chunkNamesToInline.add(name)
-            break
-          }
+  /**
+   * Dev mode: load an inline target through Vite's pipeline so TypeScript,
+   * bare imports, PostCSS and CSS plugins work as in a build. Stylesheets use
+   * the server's CSS pipeline (`?inline`); scripts get a nested build.
+   * Plain scripts are read as-is. Built scripts carry an inline source map.
+   */
+  async function loadDevContent(
+    filePath: string,
+    format?: InlineFormat,
+    channels: DiagnosticChannels = {},
+  ): Promise<string | null> {
+    let raw: string
+    try {
+      raw = await readFile(filePath, 'utf-8')
+    } catch {
+      return null
+    }
+    if (!devServer || !needsViteBuild(filePath, raw)) {
+      devWatchFiles.set(filePath, [filePath])
+      return raw
+    }
+
+    if (getInlineFileType(filePath) === 'css') {
+      devWatchFiles.set(filePath, [filePath])
+      try {
+        const id = `${filePath}?inline`
+        const mod = await devServer.ssrLoadModule(id)
+        // Vite's CSS pipeline records `@import`ed files as imports of the SSR module
+        devWatchFiles.set(filePath, [filePath, ...collectModuleFiles(devServer.moduleGraph.getModuleById(id))])
+        return typeof mod.default === 'string' ? mod.default : null
+      } catch (e) {
+        reportWarning({ message: `Failed to load: ${e instanceof Error ? e.message : String(e)}`, file: filePath }, channels)
+        return null
+      }
+    }
+
+    const key = JSON.stringify([filePath, format ?? null])
+    let build = devBuilds.get(key)
+    if (!build) {
+      build = buildWithVite(devServer.config, filePath, {
+        format,
+        minify: false,
+        sourcemap: options?.sourcemap ? 'inline' : false,
+        excludePlugin: PLUGIN_NAME,
+      })
+      devBuilds.set(key, build)
+      const { content, warnings } = await build
+      for (const warning of warnings) reportWarning({ message: warning, file: filePath }, channels)
+      // Failed builds are retried on the next request
+      if (content === null) devBuilds.delete(key)
+    }
+    const { content, watchFiles } = await build
+    devWatchFiles.set(filePath, watchFiles)
+    return content
+  }
+
+  // Files of a dev module's SSR imports, followed through the module graph
+  function collectModuleFiles(mod: ViteDevModule | undefined, seen = new Set<ViteDevModule>()): string[] {
+    if (!mod) return []
+    const files: string[] = []
+    for (const imported of mod.ssrImportedModules) {
+      if (seen.has(imported)) continue
+      seen.add(imported)
+      if (imported.file) files.push(imported.file)
+      files.push(...collectModuleFiles(imported, seen))
+    }
+    return files
+  }
+
+  // Mark inlined stylesheets so the HMR client can find their <style> blocks
+  function tagDevStyles(html: string, root: string): string {
+    const replacements: Array<{ start: number; end: number; content: string }> = []
+    for (const element of findHtmlElements(html, ['link'])) {
+      const { attrs } = element
+      if (!(attrName in attrs) || attrs.rel !== 'stylesheet' || !('href' in attrs)) continue
+      const id = devStyleId(resolve(root, attrs.href.replace(/^[\/@]/, '')), root)
+      const attrStr = formatElementAttributes(element, { ...attrs, [HMR_STYLE_ATTR]: id }, [])
+      replacements.push({ start: element.start, end: element.tagEnd, content: `<link${attrStr} />` })
+    }
+    return replaceRanges(html, replacements)
+  }
+
+  function createHmrClientTag() {
+    const client = JSON.stringify(`${base}@vite/client`)
+    const children = [
+      `import { createHotContext } from ${client}`,
+      `createHotContext("/@unplugin-inline-source").on(${JSON.stringify(HMR_EVENT)}, ({ id, content }) => {`,
+      `  for (const el of document.querySelectorAll("style[${HMR_STYLE_ATTR}]")) {`,
+      `    if (el.getAttribute("${HMR_STYLE_ATTR}") === id) el.textContent = content`,
+      `  }`,
+      `})`,
+    ].join('\n')
+    const attrs: Record<string, string> = { type: 'module' }
+    if (options?.csp?.mode === 'nonce') attrs.nonce = options.csp.nonce
+    return { tag: 'script', attrs, children, injectTo: 'head' as const }
+  }
+
+  // Maps of chunks kept in the bundle are written by Vite next to the chunk
+  function withBundleSourceMap(type: 'js' | 'css', fileName: string, content: string, filePath: string | undefined, map?: string | null): string {
+    if (!options?.sourcemap) return content
+    const sourceUrl = filePath ? sourceUrlFor(filePath, projectRoot) : fileName
+    return attachGeneratedSourceMap(content, type, options.sourcemap, sourceUrl, map ?? null, () => `${base}${fileName}.map`)
+  }
+
+  // URL of an output file from an HTML page; Vite writes relative URLs when `base` is relative
+  function outputUrl(fileName: string, htmlFileName: string): string {
+    const relativeBase = base === '' || base.startsWith('.')
+    return relativeBase ? posix.relative(posix.dirname(htmlFileName), fileName) : `${base}${fileName}`
+  }
+
+  function rebaseBundledCss(bundle: Record<string, ViteOutput>, css: string, cssFileName: string, htmlFileName: string): Promise<string> {
+    return rebaseCssUrls(css, (url) => outputUrl(joinCssUrl(cssFileName, url), htmlFileName), {
+      inlineLimit: parseSize(options?.cssAssetsInlineLimit),
+      readAsset: async (url) => {
+        const asset = bundle[joinCssUrl(cssFileName, url)]
+        if (asset?.type !== 'asset') return null
+        return typeof asset.source === 'string' ? Buffer.from(asset.source) : asset.source
+      },
+    })
+  }
+
+  async function inlineBundledContent(
+    bundle: Record<string, ViteOutput>,
+    html: string,
+    htmlFileName: string,
+    cspCollector: CspCollector,
+    report: ReportCollector,
+    channels: DiagnosticChannels,
+    page: PageOutput,
+  ): Promise<string> {
+    const csp = options?.csp
+    const hashes: Record<CspDirective, string[]> = { 'script-src': [], 'style-src': [] }
+
+    function recordInline(type: 'js' | 'css', content: string) {
+      if (csp?.mode !== 'hash') return
+      const hash = computeCspHash(content, csp.algorithm)
+      hashes[cspDirectiveFor(type)].push(hash)
+      cspCollector.add(htmlFileName, type, content, hash)
+    }
+
+    const replacements: Array<{ start: number; end: number; content: string }> = []
+
+    for (const match of html.matchAll(PAGE_TAG_PLACEHOLDER)) {
+      const { type, filePath, maxSize, element, attrs } = pageTags[Number(match[1])]
+      const start = match.index
+      const end = start + match[0].length
+      const record = { source: filePath, type, via: type === 'js' ? 'build' : 'chunk' } as const
+
+      // Scripts: a nested build, ESM for module scripts
+      if (type === 'js') {
+        const built = await page.buildScript(filePath, attrs.type === 'module' ? 'esm' : 'iife')
+        if (built.content == null) {
+          reportFailure(inlineFailure({ filePath, type, importer: htmlFileName }, projectRoot, built.warnings[built.warnings.length - 1]), options, channels)
+          report.add(htmlFileName, { ...record, status: 'failed' }, null)
+          replacements.push({ start, end, content: '' })
+          continue
+        }
+        const code = await applyTransformContent(built.content, { type, filePath, host: htmlFileName, framework: 'vite' }, options)
+        if (!checkInlineBudget(code, filePath, maxSize, options, channels, { file: htmlFileName })) {
+          report.add(htmlFileName, { ...record, status: 'external' }, code)
+          const src = outputUrl(page.emitAsset(`${basename(filePath, extname(filePath))}.js`, code), htmlFileName)
+          const attrStr = formatElementAttributes(element, { ...attrs, src }, [attrName])
+          replacements.push({ start, end, content: `<script${attrStr}></script>` })
+          continue
         }
+        report.add(htmlFileName, { ...record, status: 'inlined' }, code)
+        const attrStr = formatElementAttributes(element, withCspNonce(attrs, csp), [attrName, 'src', 'crossorigin'])
+        const withMap = options?.sourcemap
+          ? attachGeneratedSourceMap(code, type, options.sourcemap, sourceUrlFor(filePath, projectRoot), built.map ?? null, (map) => {
+              return outputUrl(page.emitAsset(`${basename(filePath)}.map`, map), htmlFileName)
+            })
+          : code
+        const escaped = escapeScriptContent(withMap)
+        recordInline('js', escaped)
+        replacements.push({ start, end, content: `<script${attrStr}>${escaped}</script>` })
+        continue
       }
-      if (chunk.type === 'asset' && inlineStyles.size > 0 && name.endsWith('.css')) {
-        assetNamesToInline.add(name)
+
+      // Stylesheets: the CSS asset of their loader chunk
+      const cssFileName = page.styleAssets.get(filePath)
+      const cssAsset = cssFileName ? bundle[cssFileName] : undefined
+      if (!cssFileName || cssAsset?.type !== 'asset') {
+        reportFailure(inlineFailure({ filePath, type, importer: htmlFileName }, projectRoot), options, channels)
+        report.add(htmlFileName, { ...record, status: 'failed' }, null)
+        replacements.push({ start, end, content: '' })
+        continue
       }
+      const rebased = await rebaseBundledCss(
+        bundle,
+        typeof cssAsset.source === 'string' ? cssAsset.source : cssAsset.source.toString(),
+        cssFileName,
+        htmlFileName,
+      )
+      const content = await applyTransformContent(rebased, { type, filePath, host: htmlFileName, framework: 'vite' }, options)
+      if (!checkInlineBudget(content, cssFileName, maxSize, options, channels, { file: htmlFileName })) {
+        report.add(htmlFileName, { ...record, status: 'external' }, content)
+        page.externalStyleAssets.add(cssFileName)
+        const attrStr = formatElementAttributes(element, { ...attrs, href: outputUrl(cssFileName, htmlFileName) }, [attrName])
+        replacements.push({ start, end, content: `<link${attrStr} />` })
+        continue
+      }
+      report.add(htmlFileName, { ...record, status: 'inlined' }, content)
+      const attrStr = formatElementAttributes(element, withCspNonce(attrs, csp), [attrName, 'rel', 'href', 'crossorigin'])
+      const styles = withBundleSourceMap('css', cssFileName, content, filePath)
+      recordInline('css', styles)
+      replacements.push({ start, end, content: `<style${attrStr}>${styles}</style>` })
     }
 
-    let result = html
-
-    // Inline JS
-    const scriptMatches = collectMatches(result, /<script\b([^>]*)>([\s\S]*?)<\/script>/gi)
-    for (const match of scriptMatches.reverse()) {
-      const attrs = parseAttributes(match[1])
-      if (!('src' in attrs)) continue
-      const normalized = attrs.src.replace(/^\//, '')
-      if (!chunkNamesToInline.has(normalized)) continue
-      const chunk = bundle[normalized]
-      if (!chunk || chunk.type !== 'chunk') continue
-      const attrStr = formatAttributes(attrs, ['src', 'crossorigin'])
-      const escaped = chunk.code.replace(/<\/script>/gi, '<\\/script>')
-      result = result.slice(0, match.index) + `<script${attrStr}>${escaped}</script>` + result.slice(match.index + match[0].length)
-    }
+    let result = replaceRanges(html, replacements)
 
-    // Inline CSS
-    const linkMatches = collectMatches(result, /<link\b([^>]*?)\/?\s*>/gi)
-    for (const match of linkMatches.reverse()) {
-      const attrs = parseAttributes(match[1])
-      if (attrs.rel !== 'stylesheet' || !('href' in attrs)) continue
-      const normalized = attrs.href.replace(/^\//, '')
-      if (!assetNamesToInline.has(normalized)) continue
-      const cssAsset = bundle[normalized]
-      if (!cssAsset || cssAsset.type !== 'asset') continue
-      const content = typeof cssAsset.source === 'string' ? cssAsset.source : cssAsset.source.toString()
-      const attrStr = formatAttributes(attrs, ['rel', 'href', 'crossorigin'])
-      result = result.slice(0, match.index) + `<style${attrStr}>${content}</style>` + result.slice(match.index + match[0].length)
+    if (csp?.mode === 'hash' && csp.meta !== false) {
+      result = mergeCspMeta(result, hashes)
     }
 
     return result
   }
 
-  type ViteConfig = { command: string; root?: string }
-  type ViteServerContext = { server?: { config: { root?: string } } }
+  type ViteConfig = Partial<ViteInlineConfig> & { command: string; base?: string; build?: { minify?: unknown } }
+  type ViteServerContext = { path?: string; filename?: string; server?: { config: { root?: string } } }
+  type ViteHmrPayload =
+    | { type: 'full-reload'; path?: string }
+    | { type: 'custom'; event: string; data: unknown }
+  type ViteHotUpdateContext = { file: string; server: { ws: { send: (payload: ViteHmrPayload) => void } } }
   type VitePluginContext = {
-    emitFile: (file: { type: 'chunk'; id: string }) => string
+    /** Vite 6+: the environment being built */
+    environment?: { name: string; config: { consumer?: string } }
+    addWatchFile: (id: string) => void
+    warn: (log: ReturnType<typeof toUnpluginMessage>) => void
+    error: (log: ReturnType<typeof toUnpluginMessage>) => void
+    emitFile: (
+      file:
+        | { type: 'chunk'; id: string; name?: string }
+        | { type: 'asset'; fileName?: string; name?: string; source: string | Uint8Array }
+    ) => string
     getFileName: (refId: string) => string
   }
   type ViteBundle = Record<string, ViteOutput>
 
+  // Each environment's build claims the registry entries it uses
+  function scopeOf(ctx: VitePluginContext): string {
+    return ctx.environment?.name ?? 'client'
+  }
+
   return {
     configResolved(config: ViteConfig) {
       isBuild = config.command === 'build'
       projectRoot = config.root ?? process.cwd()
+      inlineBuildConfig = {
+        root: projectRoot,
+        mode: config.mode,
+        define: config.define,
+        resolve: config.resolve,
+        esbuild: config.esbuild,
+        css: config.css,
+        envDir: config.envDir,
+        envPrefix: config.envPrefix,
+        build: config.build,
+        plugins: config.plugins,
+      }
+      minifyInline = config.build?.minify !== false
+      base = config.base ?? '/'
+      pageOptions = { ...options, mode: options?.mode ?? config.mode }
+      isHtmlIncluded = createFilter(options?.html, projectRoot)
+    },
+
+    configureServer(server: ViteDevServer) {
+      devServer = server
+    },
+
+    buildStart(this: VitePluginContext) {
+      markerScopes.start(scopeOf(this))
+      // HTML pages are only transformed for the client
+      if ((this.environment?.config.consumer ?? 'client') === 'client') {
+        pageTags.length = 0
+        emittedPageTags = 0
+        pageStyleRefs.clear()
+      }
+    },
+
+    // Once a page module has been transformed: bundle its stylesheets, and
+    // watch its scripts with the modules of their last build
+    moduleParsed(this: VitePluginContext) {
+      for (; emittedPageTags < pageTags.length; emittedPageTags++) {
+        const { type, filePath } = pageTags[emittedPageTags]
+        if (type === 'js') {
+          for (const file of buildWatchFiles.get(filePath) ?? [filePath]) this.addWatchFile(file)
+        } else if (!pageStyleRefs.has(filePath)) {
+          // By index: Vite would take an id ending in `.css` for the stylesheet itself
+          const id = `${PAGE_STYLE_PREFIX}${emittedPageTags}`
+          pageStyleRefs.set(filePath, this.emitFile({ type: 'chunk', id, name: basename(filePath, extname(filePath)) }))
+        }
+      }
     },
 
     resolveId(this: VitePluginContext, source: string, importer: string | undefined) {
-      // CSS loader virtual module (emitted by us)
-      if (source.startsWith(CSS_LOADER_PREFIX)) return source
+      // CSS loader virtual modules (emitted by us)
+      if (source.startsWith(CSS_LOADER_PREFIX) || source.startsWith(PAGE_STYLE_PREFIX)) return source
 
-      if (!source.endsWith(INLINE_QUERY)) return null
-      const filePath = source.slice(0, -INLINE_QUERY.length)
-      const resolved = resolveInlinePath(filePath, importer, projectRoot)
+      const request = parseInlineImport(source, publicQuery)
+      if (!request) return null
+      if (!isAllowedAsset(request.filePath)) {
+        reportFailure(excludedImport(request.filePath, importer), options, {
+          warn: (diagnostic) => this.warn(toUnpluginMessage(diagnostic)),
+          error: (diagnostic) => this.error(toUnpluginMessage(diagnostic)),
+        })
+        return EXCLUDED_ID
+      }
+      const resolved = resolveInlinePath(request.filePath, importer, projectRoot)
       const type = getInlineFileType(resolved)
 
       if (isBuild) {
-        const marker = registerMarker(resolved, type)
+        const marker = registerMarker(resolved, type, { ...entryFromRequest(request), importer }, scopeOf(this))
         const entry = inlineRegistry.get(marker)!
-        if (type === 'js') {
-          entry.refId = this.emitFile({ type: 'chunk', id: resolved })
-        } else {
+        // Scripts get their own nested build in generateBundle
+        if (type === 'css') {
           // Emit a wrapper chunk that imports the CSS → triggers CSS pipeline
           entry.refId = this.emitFile({ type: 'chunk', id: `${CSS_LOADER_PREFIX}${marker}` })
         }
         return `${BUILD_PREFIX}${marker}`
       }
 
-      // Dev mode: just read the file
-      return `${resolved}${INLINE_QUERY}`
+      // Dev mode: built through Vite on load
+      return formatInlineRequest(resolved, Object.fromEntries(request.params))
     },
 
-    async load(id: string) {
+    async load(this: VitePluginContext, id: string) {
+      if (id === EXCLUDED_ID) return `export default ""`
+
       // CSS loader: import CSS to trigger bundler CSS pipeline
       if (id.startsWith(CSS_LOADER_PREFIX)) {
         const marker = id.slice(CSS_LOADER_PREFIX.length)
@@ -116,86 +436,227 @@ export function createViteHtmlHandlers(
         if (entry) return `import ${JSON.stringify(entry.filePath)}`
         return null
       }
+      if (id.startsWith(PAGE_STYLE_PREFIX)) {
+        const style = pageTags[Number(id.slice(PAGE_STYLE_PREFIX.length))]
+        return style ? `import ${JSON.stringify(style.filePath)}` : null
+      }
 
       // Virtual module placeholder
       if (id.startsWith(BUILD_PREFIX)) {
         const marker = id.slice(BUILD_PREFIX.length)
+        const entry = inlineRegistry.get(marker)
+        markerScopes.claim(scopeOf(this), marker)
+        if (entry) {
+          for (const file of buildWatchFiles.get(entry.filePath) ?? [entry.filePath]) this.addWatchFile(file)
+        }
         return `export default "${marker}"`
       }
 
-      // Dev mode: read file directly
-      if (id.endsWith(INLINE_QUERY)) {
-        const filePath = id.slice(0, -INLINE_QUERY.length)
-        const content = await readFile(filePath, 'utf-8')
-        return `export default ${JSON.stringify(content)}`
+      // Dev mode: build through Vite, linking the sources to the importing module for HMR
+      const request = parseInlineRequest(id)
+      if (request) {
+        const loaded = await loadDevContent(request.filePath, entryFromRequest(request).format, {
+          warn: (diagnostic) => this.warn(toUnpluginMessage(diagnostic)),
+        })
+        for (const file of devWatchFiles.get(request.filePath) ?? [request.filePath]) {
+          this.addWatchFile(file)
+        }
+        if (loaded === null) throw new Error(`[${PLUGIN_NAME}] Failed to build ${request.filePath}`)
+        const type = getInlineFileType(request.filePath)
+        const content = await applyTransformContent(loaded, { type, filePath: request.filePath, framework: 'vite' }, options)
+        if (!options?.sourcemap) return `export default ${JSON.stringify(content)}`
+        const withMap = await attachSourceMap(
+          content,
+          type,
+          options.sourcemap,
+          { path: request.filePath, sourceUrl: devStyleId(request.filePath, projectRoot) },
+          (mapPath) => readFile(mapPath, 'utf-8').catch(() => null),
+        )
+        return `export default ${JSON.stringify(withMap)}`
       }
 
       return null
     },
 
     transformIndexHtml: {
-      order: 'pre',
+      order: 'pre' as const,
       async handler(html: string, ctx: ViteServerContext) {
         const root = ctx.server?.config.root ?? projectRoot
+        if (ctx.filename && !isHtmlIncluded(ctx.filename)) return html
 
         if (ctx.server) {
-          // Dev mode: inline directly from disk
-          return await transformHtml(html, async (src) => {
-            const resolved = resolve(root, src.replace(/^[\/@]/, ''))
-            try {
-              return await readFile(resolved, 'utf-8')
-            } catch {
-              return null
-            }
-          }, options)
-        }
+          // Dev mode: inline through Vite's pipeline
+          const page = ctx.path ?? '/'
+          const resolveDevPath = (src: string) => resolve(root, src.replace(/^[\/@]/, ''))
+          let hasStyles = false
 
-        // Build mode: record inline targets, strip attr so Vite processes normally
-        let result = html
+          const transformed = await transformHtml(tagDevStyles(html, root), (src) => loadDevContent(resolveDevPath(src)), pageOptions, (inlined) => {
+            // Remember which pages inlined each file for handleHotUpdate
+            const filePath = resolveDevPath(inlined.src)
+            const record = devInlined.get(filePath) ?? { type: inlined.type, pages: new Set<string>() }
+            record.pages.add(page)
+            devInlined.set(filePath, record)
+            if (inlined.type === 'css') hasStyles = true
+          }, undefined, { file: ctx.filename, framework: 'vite', minify: viteMinifier() })
 
-        const scriptMatches = collectMatches(result, /<script\b([^>]*)>([\s\S]*?)<\/script>/gi)
-        for (const match of scriptMatches.reverse()) {
-          const attrs = parseAttributes(match[1])
-          if (!(attr in attrs) || !('src' in attrs)) continue
-          inlineScripts.add(resolve(root, attrs.src.replace(/^\//, '')))
-          const attrStr = formatAttributes(attrs, [attr])
-          result = result.slice(0, match.index) + `<script${attrStr}>${match[2]}</script>` + result.slice(match.index + match[0].length)
+          if (!hasStyles) return transformed
+          return { html: transformed, tags: [createHmrClientTag()] }
         }
 
-        const linkMatches = collectMatches(result, /<link\b([^>]*?)\/?\s*>/gi)
-        for (const match of linkMatches.reverse()) {
-          const attrs = parseAttributes(match[1])
-          if (!(attr in attrs) || attrs.rel !== 'stylesheet' || !('href' in attrs)) continue
-          inlineStyles.add(resolve(root, attrs.href.replace(/^\//, '')))
-          const attrStr = formatAttributes(attrs, [attr])
-          result = result.slice(0, match.index) + `<link${attrStr} />` + result.slice(match.index + match[0].length)
+        // Build mode: take inline targets out of the page, strip the attribute from other tags
+        const replacements: Array<{ start: number; end: number; content: string }> = []
+
+        for (const element of findHtmlElements(html, ['script', 'link'])) {
+          const { attrs } = element
+          if (!(attrName in attrs)) continue
+
+          const path = element.name === 'script' ? attrs.src : attrs.href
+          if (element.name === 'script') {
+            if (!('src' in attrs)) continue
+          } else if (attrs.rel !== 'stylesheet' || !('href' in attrs)) continue
+
+          // Tags whose conditions fail only lose the attribute
+          const context = { mode: resolveMode(pageOptions), framework: 'vite', file: ctx.filename, path, type: element.name === 'script' ? 'js' as const : 'css' as const }
+          // Files Vite does not bundle (e.g. in `public/`) are left to it
+          const filePath = resolve(root, path.replace(/^\//, ''))
+          if (isAllowedAsset(path) && shouldInline(attrs[attrName], context, pageOptions) && existsSync(filePath)) {
+            replacements.push({ start: element.start, end: element.end, content: `<!--inline-source:${pageTags.length}-->` })
+            pageTags.push({ type: context.type, filePath, maxSize: resolveMaxSize(attrs[attrName], options), element, attrs })
+            continue
+          }
+
+          // Only the start tag changes; script content is kept as-is
+          const attrStr = formatElementAttributes(element, attrs, [attrName])
+          const close = element.name === 'link' ? ' />' : '>'
+          replacements.push({ start: element.start, end: element.tagEnd, content: `<${element.name}${attrStr}${close}` })
         }
 
-        if (inlineScripts.size === 0 && inlineStyles.size === 0) return html
-        return result
+        return replaceRanges(html, replacements)
       },
     },
 
-    async generateBundle(this: VitePluginContext, _: unknown, bundle: ViteBundle) {
-      await replaceInlineMarkersInBundle(
-        bundle,
-        inlineRegistry,
-        (refId) => this.getFileName(refId),
-        async (filePath) => {
-          try {
-            return await readFile(filePath, 'utf-8')
-          } catch {
-            return null
+    async handleHotUpdate(ctx: ViteHotUpdateContext) {
+      for (const [key, build] of devBuilds) {
+        if ((await build).watchFiles.includes(ctx.file)) devBuilds.delete(key)
+      }
+
+      for (const [filePath, record] of devInlined) {
+        const watchFiles = devWatchFiles.get(filePath) ?? [filePath]
+        if (!watchFiles.includes(ctx.file)) continue
+
+        if (record.type === 'css') {
+          // Swap the <style> content in place
+          const loaded = await loadDevContent(filePath)
+          if (loaded !== null) {
+            const content = await applyTransformContent(loaded, { type: 'css', filePath, framework: 'vite' }, options)
+            ctx.server.ws.send({ type: 'custom', event: HMR_EVENT, data: { id: devStyleId(filePath, projectRoot), content } })
           }
-        },
-      )
+          continue
+        }
 
-      // HTML inlining
-      for (const [fileName, asset] of Object.entries(bundle)) {
-        if (!fileName.endsWith('.html')) continue
-        if (asset.type !== 'asset' || typeof asset.source !== 'string') continue
-        asset.source = inlineBundledContent(bundle, asset.source)
+        // Inlined scripts can't be swapped: reload the pages that inline them
+        for (const page of record.pages) {
+          ctx.server.ws.send({ type: 'full-reload', path: page })
+        }
       }
     },
+
+    // After Vite's own plugins: the HTML pages are only emitted in their generateBundle
+    generateBundle: {
+      order: 'post' as const,
+      async handler(this: VitePluginContext, _: unknown, bundle: ViteBundle) {
+        const cspCollector = createCspCollector(options?.csp)
+        const report = createReportCollector(options?.report, projectRoot)
+        const channels: DiagnosticChannels = {
+          warn: (diagnostic) => this.warn(toUnpluginMessage(diagnostic)),
+          error: (diagnostic) => this.error(toUnpluginMessage(diagnostic)),
+        }
+
+        const buildScript = async (filePath: string, format?: InlineFormat) => {
+          const built = await buildWithVite(inlineBuildConfig, filePath, {
+            format,
+            minify: minifyInline,
+            sourcemap: !!options?.sourcemap,
+            excludePlugin: PLUGIN_NAME,
+          })
+          // A failed build's last message is its error, reported as the failure reason
+          for (const warning of built.content == null ? built.warnings.slice(0, -1) : built.warnings) {
+            reportWarning({ message: warning, file: filePath }, channels)
+          }
+          buildWatchFiles.set(filePath, built.watchFiles)
+          return built
+        }
+
+        const handled = await replaceInlineMarkersInBundle(bundle, inlineRegistry, {
+          getFileName: (refId) => this.getFileName(refId),
+          readFile: async (filePath) => {
+            try {
+              return await readFile(filePath, 'utf-8')
+            } catch {
+              return null
+            }
+          },
+          emitAsset: (entry, content) => this.getFileName(
+            this.emitFile({ type: 'asset', name: basename(entry.filePath), source: content }),
+          ),
+          emitReferencedAsset: (filePath, source) => this.getFileName(
+            this.emitFile({ type: 'asset', name: basename(filePath), source }),
+          ),
+          emitSourceMap: (fileName, source) => {
+            this.emitFile({ type: 'asset', fileName, source })
+          },
+          buildEntry: (entry) => buildScript(entry.filePath, entry.format),
+          onReadFiles: (filePath, files) => buildWatchFiles.set(filePath, files),
+          base,
+          root: projectRoot,
+          framework: 'vite',
+          minify: viteMinifier(),
+          transformOptions: options,
+          onReplace: (host, entry, content) => cspCollector.add(host, entry.type, content),
+          report,
+          ...channels,
+        })
+
+        // HTML inlining; the loader chunks of page stylesheets go, their CSS
+        // stays only where it is over budget
+        const scripts = new Map<string, ReturnType<typeof buildScript>>()
+        const page: PageOutput = {
+          styleAssets: new Map(),
+          externalStyleAssets: new Set(),
+          // Pages inlining the same script share its build
+          buildScript: (filePath, format) => {
+            const key = JSON.stringify([filePath, format])
+            if (!scripts.has(key)) scripts.set(key, buildScript(filePath, format))
+            return scripts.get(key)!
+          },
+          emitAsset: (name, source) => this.getFileName(this.emitFile({ type: 'asset', name, source })),
+        }
+        const loaderChunks: string[] = []
+        for (const [filePath, refId] of pageStyleRefs) {
+          const fileName = this.getFileName(refId)
+          const chunk = bundle[fileName]
+          const [cssFileName] = chunk?.type === 'chunk' && 'viteMetadata' in chunk ? chunk.viteMetadata?.importedCss ?? [] : []
+          if (cssFileName) page.styleAssets.set(filePath, cssFileName)
+          loaderChunks.push(fileName)
+        }
+        for (const [fileName, asset] of Object.entries(bundle)) {
+          if (!fileName.endsWith('.html')) continue
+          if (asset.type !== 'asset' || typeof asset.source !== 'string') continue
+          asset.source = await inlineBundledContent(bundle, asset.source, fileName, cspCollector, report, channels, page)
+        }
+        for (const fileName of loaderChunks) {
+          delete bundle[fileName]
+          delete bundle[`${fileName}.map`]
+        }
+        for (const cssFileName of page.styleAssets.values()) {
+          if (!page.externalStyleAssets.has(cssFileName)) delete bundle[cssFileName]
+        }
+
+        for (const manifest of [cspCollector.emit(), report.emit()]) {
+          if (manifest) this.emitFile({ type: 'asset', ...manifest })
+        }
+        for (const file of markerScopes.prune(scopeOf(this), handled)) buildWatchFiles.delete(file)
+      },
+    },
   }
 }
@@ -0,0 +1,39 @@
+import { test, expect, describe } from 'bun:test'
+import { externalReference } from '../src/internal/budget'
+
+type FakeElement = { tagName: string; src?: string; async?: boolean; after?: (element: FakeElement) => void }
+
+/** Run a script body against a document whose running script is `currentScript` */
+function runScript(code: string, currentScript: FakeElement | null) {
+  const added: Array<{ where: 'after' | 'head'; element: FakeElement }> = []
+  if (currentScript) currentScript.after = (element) => void added.push({ where: 'after', element })
+  const document = {
+    currentScript,
+    head: { append: (element: FakeElement) => void added.push({ where: 'head', element }) },
+    createElement: (tagName: string): FakeElement => ({ tagName }),
+  }
+  new Function('document', code)(document)
+  return added
+}
+
+describe('externalReference', () => {
+  test('adds classic scripts after the running script', () => {
+    const added = runScript(externalReference('js', '/app-1234.js'), { tagName: 'script' })
+
+    expect(added).toEqual([{ where: 'after', element: { tagName: 'script', src: '/app-1234.js', async: false } }])
+  })
+
+  test('adds classic scripts to the head from module scripts, which have no current script', () => {
+    const added = runScript(externalReference('js', '/app-1234.js'), null)
+
+    expect(added).toEqual([{ where: 'head', element: { tagName: 'script', src: '/app-1234.js', async: false } }])
+  })
+
+  test('imports ES modules', () => {
+    expect(externalReference('js', '/app-1234.js', 'esm')).toBe('import("/app-1234.js")')
+  })
+
+  test('imports stylesheets', () => {
+    expect(externalReference('css', '/app-1234.css')).toBe('@import url("/app-1234.css");')
+  })
+})
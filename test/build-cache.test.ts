@@ -0,0 +1,50 @@
+import { test, expect, describe } from 'bun:test'
+import { writeFileSync } from 'node:fs'
+import { configHash, createBuildCache } from '../src/internal/build-cache'
+import { createProject } from './project'
+
+describe('configHash', () => {
+  test('ignores key order', () => {
+    expect(configHash({ alias: { a: './a' }, define: { x: '1' } })).toBe(configHash({ define: { x: '1' }, alias: { a: './a' } }))
+  })
+
+  test('tells functions, regexes and plugin settings apart', () => {
+    class DefinePlugin {
+      constructor(public definitions: Record<string, string>) {}
+    }
+
+    expect(configHash({ test: /\.ts$/ })).not.toBe(configHash({ test: /\.tsx$/ }))
+    expect(configHash({ transform: (code: string) => code })).not.toBe(configHash({ transform: (code: string) => code.trim() }))
+    expect(configHash([new DefinePlugin({ DEBUG: 'true' })])).not.toBe(configHash([new DefinePlugin({ DEBUG: 'false' })]))
+  })
+
+  test('handles circular references', () => {
+    const rule: Record<string, unknown> = { loader: 'ts-loader' }
+    rule.self = rule
+
+    expect(configHash(rule)).toBe(configHash(rule))
+  })
+})
+
+describe('createBuildCache', () => {
+  test('misses when the plugin options change', async () => {
+    const project = createProject({ 'app.ts': 'run()' })
+    const cache = { dir: project.path('.cache') }
+    const build = { content: 'built', files: [project.path('app.ts')] }
+
+    await createBuildCache({ cache, minify: true }).set(['webpack', 'app.ts'], build)
+
+    expect(await createBuildCache({ cache, minify: true }).get(['webpack', 'app.ts'])).toMatchObject({ content: 'built' })
+    expect(await createBuildCache({ cache, minify: false }).get(['webpack', 'app.ts'])).toBeNull()
+  })
+
+  test('misses once a source file changes', async () => {
+    const project = createProject({ 'app.ts': 'run()' })
+    const buildCache = createBuildCache({})
+    await buildCache.set(['bun', 'app.ts'], { content: 'built', files: [project.path('app.ts')] })
+
+    writeFileSync(project.path('app.ts'), 'run(1)')
+
+    expect(await buildCache.get(['bun', 'app.ts'])).toBeNull()
+  })
+})
@@ -0,0 +1,78 @@
+import { test, expect, describe } from 'bun:test'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import inlineSourceBun from '../src/bun'
+import { buildWithBun } from '../src/internal/inline-builders'
+import { createProject } from './project'
+
+describe('bun', () => {
+  test('emits over-budget entries as their own files', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.js?inline-source&maxSize=8'\nconsole.log(app)\n`,
+      'app.js': `console.log('a script over the budget')\n`,
+    })
+    const outdir = join(project.root, 'dist')
+
+    const result = await Bun.build({ entrypoints: [project.path('entry.js')], outdir, plugins: [inlineSourceBun()] })
+    const emitted = readdirSync(outdir).find((file) => /^app-\w{8}\.js$/.test(file))
+
+    expect(result.success).toBe(true)
+    expect(emitted).toBeDefined()
+    expect(readFileSync(join(outdir, emitted!), 'utf-8')).toContain('a script over the budget')
+    expect(await result.outputs[0].text()).toContain(`src:"/${emitted}"`)
+  })
+
+  test('inlines a bundled, transpiled build of a TypeScript entry', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.ts?inline-source'\nconsole.log(app)\n`,
+      'app.ts': `import { greet } from './greet'\nconst name: string = 'world'\ngreet(name)\n`,
+      'greet.ts': `export function greet(name: string): void {\n  console.log('hi ' + name)\n}\n`,
+    })
+
+    const result = await Bun.build({ entrypoints: [project.path('entry.js')], plugins: [inlineSourceBun()] })
+    const code = await result.outputs[0].text()
+
+    expect(result.success).toBe(true)
+    expect(code).toContain('hi ')
+    expect(code).not.toContain(': string')
+    expect(code).not.toContain('./greet')
+  })
+})
+
+describe('buildWithBun', () => {
+  test('bundles a TSX entry with its imports into an IIFE', async () => {
+    const project = createProject({
+      'tsconfig.json': JSON.stringify({ compilerOptions: { jsx: 'react', jsxFactory: 'h' } }),
+      'app.tsx': `import { h } from './h'\nconst el: unknown = <b>hello</b>\nconsole.log(el)\n`,
+      'h.ts': `export const h = (tag: string, props: unknown, ...children: unknown[]) => ({ tag, children })\n`,
+    })
+
+    const built = await buildWithBun(project.path('app.tsx'), 'js')
+
+    expect(built.warnings).toEqual([])
+    expect(built.content).toContain('"hello"')
+    expect(built.content).not.toContain('<b>')
+    expect(built.content).not.toContain('import ')
+    expect(built.content).not.toContain(': unknown')
+    expect(built.files?.sort()).toEqual([project.path('app.tsx'), project.path('h.ts')])
+  })
+
+  test('reports the errors of a failed build', async () => {
+    const project = createProject({ 'app.ts': `import { greet } from './missing'\ngreet()\n` })
+
+    const built = await buildWithBun(project.path('app.ts'), 'js')
+
+    expect(built.content).toBeNull()
+    expect(built.warnings.some((warning) => warning.includes('./missing'))).toBe(true)
+  })
+
+  test('reports the output of a build process that crashed', async () => {
+    const project = createProject({ 'app.ts': `console.log('app')\n` })
+
+    const built = await buildWithBun(project.path('app.ts'), 'js', { plugins: [project.path('no-such-plugin.js')] })
+
+    expect(built.content).toBeNull()
+    expect(built.warnings).toHaveLength(1)
+    expect(built.warnings[0]).toContain('no-such-plugin.js')
+  })
+})
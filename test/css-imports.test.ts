@@ -0,0 +1,68 @@
+import { test, expect, describe } from 'bun:test'
+import { flattenCssImports } from '../src/internal/css-imports'
+import { createProject } from './project'
+
+describe('flattenCssImports', () => {
+  test('inlines nested local imports and lists the files read', async () => {
+    const project = createProject({
+      'app.css': `@import './base.css';\n.app { color: red }\n`,
+      'base.css': `@import "./reset.css";\nbody { margin: 0 }\n`,
+      'reset.css': `* { box-sizing: border-box }\n`,
+    })
+
+    const { css, files } = await flattenCssImports(project.path('app.css'))
+
+    expect(css).toBe(`* { box-sizing: border-box }\n\nbody { margin: 0 }\n\n.app { color: red }\n`)
+    expect(files).toEqual([project.path('app.css'), project.path('base.css'), project.path('reset.css')])
+  })
+
+  test('rebases the URLs of imported files to the importer', async () => {
+    const project = createProject({
+      'app.css': `@import './theme/dark.css';\n`,
+      'theme/dark.css': `.logo { background: url(../images/logo.png) }\n.bg { background: url("bg.png") }\n.abs { background: url(/x.png) }\n`,
+    })
+
+    const { css } = await flattenCssImports(project.path('app.css'))
+
+    expect(css).toContain('url(images/logo.png)')
+    expect(css).toContain('url("theme/bg.png")')
+    expect(css).toContain('url(/x.png)')
+  })
+
+  test('wraps conditional imports and hoists remote ones after @charset', async () => {
+    const project = createProject({
+      'app.css': [
+        '@charset "utf-8";',
+        `@import url(./print.css) print;`,
+        `@import './grid.css' layer(base) supports(display: grid) screen and (min-width: 600px);`,
+        `@import 'https://fonts.example/font.css';`,
+        '.app { color: red }',
+      ].join('\n'),
+      'print.css': '.no-print { display: none }',
+      'grid.css': '.grid { display: grid }',
+    })
+
+    const { css } = await flattenCssImports(project.path('app.css'))
+
+    expect(css.startsWith(`@charset "utf-8";\n@import 'https://fonts.example/font.css';\n`)).toBe(true)
+    expect(css).toContain('@media print {\n.no-print { display: none }\n}')
+    expect(css).toContain('@media screen and (min-width: 600px) {\n@supports (display: grid) {\n@layer base {\n.grid { display: grid }\n}\n}\n}')
+  })
+
+  test('reports cycles and unreadable imports, keeping the rest', async () => {
+    const project = createProject({
+      'a.css': `@import './b.css';\n@import './missing.css';\n.a {}\n`,
+      'b.css': `@import './a.css';\n.b {}\n`,
+    })
+    const warnings: string[] = []
+
+    const { css } = await flattenCssImports(project.path('a.css'), (message) => warnings.push(message))
+
+    expect(css).toContain('.b {}')
+    expect(css).toContain('.a {}')
+    expect(css).toContain(`@import './missing.css';`)
+    expect(warnings).toHaveLength(2)
+    expect(warnings[0]).toStartWith('CSS import cycle: ')
+    expect(warnings[1]).toStartWith('Could not read ')
+  })
+})
@@ -0,0 +1,86 @@
+import { test, expect, describe } from 'bun:test'
+import { build } from 'esbuild'
+import inlineSourceEsbuild from '../src/esbuild'
+import { createProject } from './project'
+
+describe('esbuild', () => {
+  test('inlines a nested build with the target, define, loaders, tsconfig and aliases of the build', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.tsx?inline-source'\nconsole.log(app)\n`,
+      'app.tsx': `import { greet } from '@/greet'\nimport note from './note.txt'\nconst el = <b>{note}</b>\nconst run = async (): Promise<string> => greet(__GREETING__)\nrun().then(() => render(el))\n`,
+      'lib/greet.ts': `export function greet(name: string): string {\n  return 'hi ' + name\n}\n`,
+      'note.txt': 'a plain note',
+      // Not found by esbuild on its own
+      'tsconfig.build.json': JSON.stringify({ compilerOptions: { jsxFactory: 'h' } }),
+    })
+
+    const result = await build({
+      entryPoints: [project.path('entry.js')],
+      bundle: true,
+      write: false,
+      outdir: project.path('dist'),
+      target: 'es2015',
+      define: { __GREETING__: JSON.stringify('from define') },
+      loader: { '.txt': 'text' },
+      tsconfig: project.path('tsconfig.build.json'),
+      alias: { '@': project.path('lib') },
+      plugins: [inlineSourceEsbuild()],
+      logLevel: 'silent',
+    })
+    const code = result.outputFiles[0].text
+
+    expect(result.errors).toEqual([])
+    expect(code).toContain('hi ')
+    expect(code).toContain('from define')
+    expect(code).toContain('a plain note')
+    expect(code).toContain('h(\\"b\\"')
+    expect(code).not.toContain('async ')
+    expect(code).not.toContain(': string')
+    expect(code).not.toMatch(/= "__INLINE_BUILD_\w+__"/)
+  })
+
+  test('writes the assets of nested stylesheet builds to the output directory', async () => {
+    const project = createProject({
+      'entry.js': `import css from './styles/app.css?inline-source'\nconsole.log(css)\n`,
+      'styles/app.css': `.hero { background: url(../images/hero.png) }\n`,
+      'images/hero.png': 'x'.repeat(64),
+    })
+
+    const result = await build({
+      entryPoints: [project.path('entry.js')],
+      bundle: true,
+      write: false,
+      outdir: project.path('dist'),
+      publicPath: '/static',
+      plugins: [inlineSourceEsbuild({ cssAssetsInlineLimit: 16 })],
+      logLevel: 'silent',
+    })
+    const image = result.outputFiles.find((file) => file.path.endsWith('.png'))
+
+    expect(image?.path.startsWith(project.path('dist/'))).toBe(true)
+    expect(image?.text).toBe('x'.repeat(64))
+    expect(result.outputFiles.some((file) => file.path.includes('inline-build'))).toBe(false)
+    expect(result.outputFiles[0].text).toContain(`url(\\"/static/${image!.path.slice(project.path('dist/').length)}\\")`)
+  })
+
+  test('reports a failed nested build instead of inlining the source', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.ts?inline-source'\nconsole.log(app)\n`,
+      'app.ts': `import { greet } from './missing'\ngreet('world')\n`,
+    })
+
+    const result = await build({
+      entryPoints: [project.path('entry.js')],
+      bundle: true,
+      write: false,
+      outdir: project.path('dist'),
+      plugins: [inlineSourceEsbuild()],
+      logLevel: 'silent',
+    })
+    const messages = result.warnings.map((warning) => warning.text)
+
+    expect(messages.some((message) => message.includes('./missing'))).toBe(true)
+    expect(messages.some((message) => message.startsWith('Could not inline'))).toBe(true)
+    expect(result.outputFiles[0].text).not.toContain(`greet('world')`)
+  })
+})
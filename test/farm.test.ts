@@ -0,0 +1,154 @@
+import { test, expect, describe, mock, beforeEach } from 'bun:test'
+import { relative } from 'node:path'
+import { unplugin } from '../src/index'
+import { buildWithFarm, type FarmCompilerCache } from '../src/internal/inline-builders'
+import { createProject } from './project'
+
+type Config = { input: { inline: string }; output?: Record<string, unknown>; [key: string]: unknown }
+type Logger = { warn: (message: string) => void }
+
+/**
+ * Stands in for `@farmfe/core`: each compile "builds" the entry into
+ * `built(<entry>)`, logs `warnings` and fails while `failing` is set.
+ */
+const farm = {
+  configs: [] as Config[],
+  compiles: 0,
+  running: 0,
+  maxRunning: 0,
+  warnings: [] as string[],
+  failing: null as string | null,
+  startError: null as string | null,
+  imports: {} as Record<string, string[]>,
+}
+
+mock.module('@farmfe/core', () => ({
+  createCompiler: async ({ config }: { config: Config }, logger: Logger) => {
+    if (farm.startError) throw new Error(farm.startError)
+    farm.configs.push(config)
+    const entry = config.input.inline
+    return {
+      compile: async () => {
+        farm.compiles++
+        farm.maxRunning = Math.max(farm.maxRunning, ++farm.running)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        farm.running--
+        for (const warning of farm.warnings) logger.warn(warning)
+        if (farm.failing) throw new Error(farm.failing)
+      },
+      resourcesMap: () => ({ 'inline.js': { name: 'inline.js', bytes: [...Buffer.from(`built(${JSON.stringify(entry)})`)] } }),
+      watchModules: () => [entry, ...(farm.imports[entry] ?? [])].map((file) => relative(process.cwd(), file)),
+    }
+  },
+}))
+
+beforeEach(() => {
+  Object.assign(farm, { configs: [], compiles: 0, running: 0, maxRunning: 0, warnings: [], failing: null, startError: null, imports: {} })
+})
+
+describe('buildWithFarm', () => {
+  test('reuses a cached compiler and runs its compiles one at a time', async () => {
+    const project = createProject({ 'app.ts': 'run()' })
+    const cache: FarmCompilerCache = new Map()
+
+    const builds = await Promise.all([1, 2, 3].map(() => buildWithFarm(project.path('app.ts'), 'js', undefined, cache)))
+
+    expect(builds.map((built) => built.content)).toEqual(Array(3).fill(`built(${JSON.stringify(project.path('app.ts'))})`))
+    expect(farm.configs).toHaveLength(1)
+    expect(farm.compiles).toBe(3)
+    expect(farm.maxRunning).toBe(1)
+  })
+
+  test('merges the overrides into the compiler config', async () => {
+    const project = createProject({ 'app.ts': 'run()' })
+
+    await buildWithFarm(project.path('app.ts'), 'js', { output: { targetEnv: 'browser-es2017' }, minify: false })
+
+    expect(farm.configs[0]).toMatchObject({ minify: false, output: { format: 'esm', targetEnv: 'browser-es2017' } })
+  })
+
+  test('returns the warnings of each compile and the modules it read', async () => {
+    const project = createProject({ 'app.ts': 'run()', 'shared.ts': '' })
+    const cache: FarmCompilerCache = new Map()
+    farm.imports[project.path('app.ts')] = [project.path('shared.ts')]
+    farm.warnings = ['unused import']
+
+    const first = await buildWithFarm(project.path('app.ts'), 'js', undefined, cache)
+    farm.warnings = []
+    const second = await buildWithFarm(project.path('app.ts'), 'js', undefined, cache)
+
+    expect(first.warnings).toEqual(['unused import'])
+    expect(second.warnings).toEqual([])
+    expect(first.files).toEqual([project.path('app.ts'), project.path('shared.ts')])
+  })
+
+  test('reports failed compiles and drops compilers that failed to start', async () => {
+    const project = createProject({ 'app.ts': 'run()' })
+    const cache: FarmCompilerCache = new Map()
+
+    farm.failing = 'Unexpected token'
+    farm.warnings = ['unused import']
+    expect(await buildWithFarm(project.path('app.ts'), 'js', undefined, cache)).toEqual({
+      content: null,
+      warnings: ['unused import', 'Unexpected token'],
+    })
+    expect(cache.size).toBe(1)
+
+    cache.clear()
+    farm.startError = 'Invalid config'
+    expect(await buildWithFarm(project.path('app.ts'), 'js', undefined, cache)).toEqual({ content: null, warnings: ['Invalid config'] })
+    expect(cache.size).toBe(0)
+  })
+})
+
+describe('farm', () => {
+  /** Load an inline import through the plugin as Farm does, without output hooks */
+  async function load(plugin: ReturnType<typeof unplugin.raw>, id: string, importer: string) {
+    const warnings: string[] = []
+    const watchFiles: string[] = []
+    const context = {
+      warn: (log: string | { message: string }) => void warnings.push(typeof log === 'string' ? log : log.message),
+      error: (log: string | { message: string }) => {
+        throw new Error(typeof log === 'string' ? log : log.message)
+      },
+      addWatchFile: (file: string) => void watchFiles.push(file),
+      emitFile: () => {},
+      getNativeBuildContext: () => ({ framework: 'farm' }),
+    }
+    const hooks = Array.isArray(plugin) ? plugin[0] : plugin
+    const resolved = await hooks.resolveId.call(context, id, importer)
+    const code = await hooks.load.call(context, resolved)
+    return { code: String(code), warnings, watchFiles }
+  }
+
+  test('inlines compiled content, reusing it until a source file changes', async () => {
+    const project = createProject({ 'app.ts': 'run()', 'shared.ts': 'export {}' })
+    farm.imports[project.path('app.ts')] = [project.path('shared.ts')]
+    const plugin = unplugin.raw(undefined, { framework: 'farm' })
+
+    const first = await load(plugin, './app.ts?inline-source', project.path('entry.js'))
+    await load(plugin, './app.ts?inline-source', project.path('entry.js'))
+
+    expect(first.code).toBe(`export default ${JSON.stringify(`built(${JSON.stringify(project.path('app.ts'))})`)}`)
+    expect(first.watchFiles).toContain(project.path('shared.ts'))
+    expect(farm.compiles).toBe(1)
+
+    await Bun.write(project.path('shared.ts'), 'export const changed = true')
+    await load(plugin, './app.ts?inline-source', project.path('entry.js'))
+    expect(farm.compiles).toBe(2)
+  })
+
+  test('reports compile warnings and failures through the load context', async () => {
+    const project = createProject({ 'app.ts': 'run()' })
+    const plugin = unplugin.raw(undefined, { framework: 'farm' })
+    farm.warnings = ['unused import']
+    farm.failing = 'Unexpected token'
+
+    const { code, warnings } = await load(plugin, './app.ts?inline-source', project.path('entry.js'))
+
+    expect(code).toBe('export default ""')
+    expect(warnings.some((warning) => warning.includes('unused import'))).toBe(true)
+    expect(warnings.some((warning) => warning.includes('Unexpected token'))).toBe(true)
+    expect(warnings.some((warning) => warning.startsWith('Could not inline'))).toBe(true)
+  })
+})
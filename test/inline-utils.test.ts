@@ -0,0 +1,54 @@
+import { test, expect, describe } from 'bun:test'
+import { entryFromRequest, formatInlineRequest, parseInlineImport } from '../src/internal/inline-utils'
+
+const QUERY = '?inline-source'
+
+function parse(id: string, query = QUERY) {
+  const request = parseInlineImport(id, query)
+  return request && { filePath: request.filePath, params: Object.fromEntries(request.params) }
+}
+
+describe('parseInlineImport', () => {
+  test('parses the public query with settings after it', () => {
+    expect(parse('./card.css?inline-source')).toEqual({ filePath: './card.css', params: {} })
+    expect(parse('./app.ts?inline-source&maxSize=8kb&format=esm')).toEqual({
+      filePath: './app.ts',
+      params: { maxSize: '8kb', format: 'esm' },
+    })
+  })
+
+  test('parses settings before the public query', () => {
+    expect(parse('./app.ts?maxSize=8kb&raw&inline-source')).toEqual({ filePath: './app.ts', params: { maxSize: '8kb', raw: '' } })
+  })
+
+  test('parses the internal query', () => {
+    expect(parse(formatInlineRequest('/src/app.ts', { format: 'iife', maxSize: undefined }))).toEqual({
+      filePath: '/src/app.ts',
+      params: { format: 'iife' },
+    })
+  })
+
+  test('uses a custom query', () => {
+    expect(parse('./card.css?inline', '?inline')).toEqual({ filePath: './card.css', params: {} })
+    expect(parse('./card.css?inline-source', '?inline')).toBeNull()
+  })
+
+  test('ignores other imports', () => {
+    expect(parse('./card.css')).toBeNull()
+    expect(parse('./card.css?inline-sourcemap')).toBeNull()
+    expect(parse('./card.css?url&no-inline-source')).toBeNull()
+  })
+})
+
+describe('entryFromRequest', () => {
+  const entry = (id: string) => entryFromRequest(parseInlineImport(id, QUERY)!)
+
+  test('reads the per-import settings', () => {
+    expect(entry('./app.ts?inline-source&maxSize=8kb&format=esm&raw')).toEqual({ maxSize: 8192, format: 'esm', raw: true })
+  })
+
+  test('leaves out missing and invalid settings', () => {
+    expect(entry('./app.ts?inline-source')).toEqual({ maxSize: undefined, format: undefined, raw: undefined })
+    expect(entry('./app.ts?inline-source&maxSize=big&format=cjs')).toEqual({ maxSize: undefined, format: undefined, raw: undefined })
+  })
+})
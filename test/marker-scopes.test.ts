@@ -0,0 +1,42 @@
+import { test, expect, describe } from 'bun:test'
+import type { InlineEntry } from '../src/core'
+import { createMarkerScopes } from '../src/internal/marker-scopes'
+
+function registry(entries: Record<string, string>): Map<string, InlineEntry> {
+  return new Map(Object.entries(entries).map(([marker, filePath]) => [marker, { filePath, type: 'js' }]))
+}
+
+describe('createMarkerScopes', () => {
+  test('drops entries the last build neither claimed nor output', () => {
+    const inlineRegistry = registry({ a: '/src/a.ts', b: '/src/b.ts', c: '/src/c.ts' })
+    const scopes = createMarkerScopes(inlineRegistry)
+    for (const marker of ['a', 'b', 'c']) scopes.claim('default', marker)
+
+    scopes.start('default')
+    scopes.claim('default', 'a')
+    const dropped = scopes.prune('default', ['b'])
+
+    expect([...inlineRegistry.keys()]).toEqual(['a', 'b'])
+    expect(dropped).toEqual(['/src/c.ts'])
+  })
+
+  test('keeps entries another scope still uses', () => {
+    const inlineRegistry = registry({ a: '/src/a.ts', b: '/src/b.ts' })
+    const scopes = createMarkerScopes(inlineRegistry)
+    scopes.claim('client', 'a')
+    scopes.claim('ssr', 'b')
+
+    scopes.start('client')
+    scopes.prune('client', [])
+
+    expect([...inlineRegistry.keys()]).toEqual(['b'])
+  })
+
+  test('only reports files no remaining entry refers to', () => {
+    const inlineRegistry = registry({ a: '/src/a.ts', raw: '/src/a.ts' })
+    const scopes = createMarkerScopes(inlineRegistry)
+
+    expect(scopes.prune('default', ['a'])).toEqual([])
+    expect([...inlineRegistry.keys()]).toEqual(['a'])
+  })
+})
@@ -0,0 +1,50 @@
+import { test, expect, describe } from 'bun:test'
+import { minifyContent, stripJs } from '../src/internal/minify'
+
+/** Run a function body and return its result */
+function run(code: string): unknown {
+  return new Function(code)()
+}
+
+describe('stripJs', () => {
+  const cases: Record<string, string> = {
+    'regular expressions containing //': `const re = /\\/\\/+/g // slashes\nconst other = /[/]\\/\\// /* class */\nreturn ['a//b'.replace(re, '-'), other.test('///')]`,
+    'nested template literals': 'const c = 1\nreturn `a ${`b ${c + `d // e`}`} f /* g */` // tail',
+    'comments in template expressions': 'const x = 2\nreturn `${x /* } */} ${ {a: "}"}.a }`',
+    'return before a line break': 'function f() {\n  return // nothing\n  1\n}\nreturn f()',
+    '++ on the next line': 'let a = 1, b = 1\na\n++b\nreturn [a, b]',
+    'division after a postfix ++': 'let i = 4\nconst half = i++ / 2 // halved\nreturn [i, half, i-- / 5 / 1]',
+    'unary operators': 'let a = 1, b = 2\nreturn [a + +b, a - -b, a + ++b, a - --b]',
+  }
+
+  for (const [name, code] of Object.entries(cases)) {
+    test(`keeps the behavior of ${name}`, () => {
+      const stripped = stripJs(code)
+
+      expect(run(stripped)).toEqual(run(code))
+      expect(stripped.length).toBeLessThan(code.length)
+    })
+  }
+
+  test('reads / after a postfix ++ as a division', () => {
+    expect(stripJs('x = i++ / 2 // halved')).toBe('x=i++ / 2')
+  })
+
+  test('keeps license comments', () => {
+    expect(stripJs('/*! (c) */\n// run it\nrun( 1 )\n')).toBe('/*! (c) */\nrun(1)')
+  })
+})
+
+describe('minifyContent', () => {
+  test('prefers the given minifier', async () => {
+    expect(await minifyContent('run( 1 )', 'js', () => 'minified')).toBe('minified')
+  })
+
+  test('falls back to esbuild for content the minifier does not handle', async () => {
+    expect(await minifyContent('if (a) {\n  run( 1 )\n}\n', 'js', () => null)).toBe('a&&run(1);')
+  })
+
+  test('strips content esbuild can not parse', async () => {
+    expect(await minifyContent('run( 1 ) // not\n}', 'js')).toBe('run(1)\n}')
+  })
+})
@@ -0,0 +1,15 @@
+import { mkdtempSync, mkdirSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+
+/**
+ * Write `files` (relative path → content) into a fresh temporary directory
+ */
+export function createProject(files: Record<string, string>): { root: string; path: (file: string) => string } {
+  const root = mkdtempSync(join(tmpdir(), 'inline-source-'))
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, file)), { recursive: true })
+    writeFileSync(join(root, file), content)
+  }
+  return { root, path: (file) => join(root, file) }
+}
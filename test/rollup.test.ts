@@ -0,0 +1,204 @@
+import { test, expect, describe, spyOn } from 'bun:test'
+import { rolldown } from 'rolldown'
+import { rollup } from 'rollup'
+import inlineSourceRolldown from '../src/rolldown'
+import inlineSourceRollup from '../src/rollup'
+import { createProject } from './project'
+
+describe('rolldown', () => {
+  test('inlines a bundled build of a TypeScript entry', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.ts?inline-source'\nexport default app\n`,
+      'app.ts': `import { greet } from './shared'\nconst name: string = 'world'\ngreet(name)\n`,
+      'shared.ts': `export function greet(name: string): void {\n  console.log('hi ' + name)\n}\n`,
+    })
+
+    const bundle = await rolldown({ input: project.path('entry.js'), plugins: [inlineSourceRolldown()], logLevel: 'silent' })
+    const { output } = await bundle.generate({ format: 'esm' })
+    const code = output[0].code
+
+    expect(code).toContain('hi ')
+    expect(code).not.toContain('import {')
+    expect(code).not.toContain(': string')
+    expect(code).toContain('greet(\\"world\\")')
+  })
+
+  test('reports a failed build instead of inlining the source from disk', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.ts?inline-source'\nexport default app\n`,
+      'app.ts': `import { greet } from './missing'\nconst name: string = 'world'\ngreet(name)\n`,
+    })
+
+    const warnings: string[] = []
+    const bundle = await rolldown({
+      input: project.path('entry.js'),
+      plugins: [inlineSourceRolldown()],
+      onLog: (level, log) => {
+        if (level === 'warn') warnings.push(log.message)
+      },
+    })
+    const { output } = await bundle.generate({ format: 'esm' })
+
+    expect(output[0].code).not.toContain(': string')
+    expect(warnings.some((warning) => warning.startsWith('Could not inline') && warning.includes('./missing'))).toBe(true)
+  })
+
+  test('imports over-budget ES modules from their own file', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.js?inline-source&maxSize=8&format=esm'\nexport default app\n`,
+      'app.js': `console.log('a module over the budget')\n`,
+    })
+
+    const bundle = await rolldown({ input: project.path('entry.js'), plugins: [inlineSourceRolldown()], logLevel: 'silent' })
+    const { output } = await bundle.generate({ format: 'esm' })
+    const emitted = output.find((file) => file.fileName !== output[0].fileName && file.fileName.endsWith('.js'))
+
+    expect(emitted?.type === 'asset' && String(emitted.source)).toContain('a module over the budget')
+    expect(output[0].code).toContain(`import(\\"/${emitted!.fileName}\\")`)
+    expect(output[0].code).not.toContain('currentScript')
+  })
+
+  test('reports over-budget entries through the bundler log', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.js?inline-source&maxSize=8'\nexport default app\n`,
+      'app.js': `console.log('a script over the budget')\n`,
+    })
+
+    const warnings: string[] = []
+    const consoleWarn = spyOn(console, 'warn').mockImplementation(() => {})
+    try {
+      const bundle = await rolldown({
+        input: project.path('entry.js'),
+        plugins: [inlineSourceRolldown()],
+        onLog: (level, log) => {
+          if (level === 'warn') warnings.push(log.message)
+        },
+      })
+      await bundle.generate({ format: 'esm' })
+    } finally {
+      consoleWarn.mockRestore()
+    }
+
+    expect(warnings.some((warning) => warning.includes('over the inline budget of 8 B; keeping it external'))).toBe(true)
+    expect(consoleWarn).not.toHaveBeenCalled()
+  })
+})
+
+/** Stands in for a CSS plugin that emits no stylesheet, so Rollup can parse `.css` imports */
+const ignoreCss = {
+  name: 'ignore-css',
+  transform: (_: string, id: string) => (id.endsWith('.css') ? 'export {}' : null),
+}
+
+describe('rollup', () => {
+  test('emits the assets a stylesheet read from disk references', async () => {
+    const project = createProject({
+      'entry.js': `import css from './styles/app.css?inline-source'\nexport default css\n`,
+      'styles/app.css': `.hero { background: url(../images/hero.png?v=2) }\n.icon { background: url(./icon.svg) }\n`,
+      'images/hero.png': 'x'.repeat(64),
+      'styles/icon.svg': '<svg/>',
+    })
+
+    const bundle = await rollup({
+      input: project.path('entry.js'),
+      plugins: [ignoreCss, inlineSourceRollup({ cssAssetsInlineLimit: 16 })],
+      logLevel: 'silent',
+    })
+    const { output } = await bundle.generate({ format: 'esm' })
+    const image = output.find((file) => file.type === 'asset' && file.fileName.endsWith('.png'))
+    const code = output[0].code
+
+    expect(image?.type === 'asset' && Buffer.from(image.source).toString()).toBe('x'.repeat(64))
+    expect(code).toContain(`url(/${image!.fileName}?v=2)`)
+    expect(code).toContain('url(data:image/svg+xml;base64,')
+    expect(code).not.toContain('images/hero.png')
+  })
+
+  test('fails an exceeded budget through the bundler with failOnBudget', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.js?inline-source&maxSize=8'\nexport default app\n`,
+      'app.js': `console.log('a script over the budget')\n`,
+    })
+
+    const bundle = await rollup({ input: project.path('entry.js'), plugins: [inlineSourceRollup({ failOnBudget: true })], logLevel: 'silent' })
+    const error = await bundle.generate({ format: 'esm' }).catch((error: { message: string; plugin?: string; id?: string }) => error)
+
+    expect(error).toMatchObject({ plugin: 'unplugin-inline-source', id: project.path('entry.js') })
+    expect((error as Error).message).toContain('over the inline budget of 8 B')
+  })
+
+  test('flattens the local imports of a stylesheet read from disk', async () => {
+    const project = createProject({
+      'entry.js': `import css from './styles/app.css?inline-source'\nexport default css\n`,
+      'styles/app.css': `@import './theme/colors.css';\n.app { color: var(--fg) }\n`,
+      'styles/theme/colors.css': `:root { --fg: #111 }\n`,
+    })
+
+    const bundle = await rollup({ input: project.path('entry.js'), plugins: [ignoreCss, inlineSourceRollup()], logLevel: 'silent' })
+    const { output } = await bundle.generate({ format: 'esm' })
+
+    expect(output[0].code).toContain(':root { --fg: #111 }')
+    expect(output[0].code).not.toContain('@import')
+  })
+
+  test('inlines a bundled build of a script entry', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.js?inline-source'\nexport default app\n`,
+      'app.js': `import { greet } from './shared.js'\ngreet('world')\n`,
+      'shared.js': `export function greet(name) {\n  console.log('hi ' + name)\n}\n`,
+    })
+
+    const bundle = await rollup({ input: project.path('entry.js'), plugins: [inlineSourceRollup()], logLevel: 'silent' })
+    const { output } = await bundle.generate({ format: 'esm' })
+    const code = output[0].code
+
+    expect(code).toContain('hi ')
+    expect(code).toContain('world')
+    expect(code).not.toContain('./shared.js')
+    expect(output.filter((file) => file.type === 'chunk')).toHaveLength(1)
+  })
+
+  test('watches the files read for inlining from the next rebuild on', async () => {
+    const project = createProject({
+      'entry.js': `import css from './styles/app.css?inline-source'\nimport app from './app.js?inline-source'\nexport default [css, app]\n`,
+      'styles/app.css': `@import './theme/colors.css';\n.app { color: var(--fg) }\n`,
+      'styles/theme/colors.css': `:root { --fg: #111 }\n`,
+      'app.js': `import './shared.js'\n`,
+      'shared.js': `console.log('shared')\n`,
+    })
+
+    const plugin = inlineSourceRollup()
+    const build = async () => {
+      const bundle = await rollup({ input: project.path('entry.js'), plugins: [ignoreCss, plugin], logLevel: 'silent' })
+      await bundle.generate({ format: 'esm' })
+      return bundle.watchFiles
+    }
+
+    expect(await build()).toEqual(expect.arrayContaining([project.path('styles/app.css'), project.path('app.js')]))
+    expect(await build()).toEqual(expect.arrayContaining([
+      project.path('styles/app.css'),
+      project.path('styles/theme/colors.css'),
+      project.path('app.js'),
+      project.path('shared.js'),
+    ]))
+  })
+
+  test('gives the same output on every build of one plugin instance', async () => {
+    const project = createProject({
+      'entry.js': `import app from './app.js?inline-source'\nimport css from './app.css?inline-source'\nexport default [app, css]\n`,
+      'app.js': `console.log('app')\n`,
+      'app.css': `.app { color: red }\n`,
+    })
+    const plugin = inlineSourceRollup()
+    const build = async () => {
+      const bundle = await rollup({ input: project.path('entry.js'), plugins: [ignoreCss, plugin], logLevel: 'silent' })
+      const { output } = await bundle.generate({ format: 'esm' })
+      return output.map((file) => (file.type === 'chunk' ? file.code : file.fileName))
+    }
+
+    const first = await build()
+
+    expect(first.join('\n')).not.toContain('__INLINE_BUILD_')
+    expect(await build()).toEqual(first)
+  })
+})
@@ -1,12 +1,12 @@
 import { test, expect, describe } from 'bun:test'
-import { transformJsx } from '../src/core'
+import { transformJsx, type InlineDiagnostic } from '../src/core'
 
 const buildQueries = { raw: '?__inline_build', inline: '?__inline_build' }
 
 describe('transformJsx', () => {
   test('transforms script tag with inline src', () => {
     const code = `export default () => <div><script inline src="./app.js"></script></div>`
-    const result = transformJsx(code, 'inline', buildQueries)
+    const result = transformJsx(code, 'inline', buildQueries)?.code
 
     expect(result).toContain(`import __inline_0 from './app.js?__inline_build'`)
     expect(result).toContain('dangerouslySetInnerHTML={{__html: __inline_0}}')
@@ -16,7 +16,7 @@ describe('transformJsx', () => {
 
   test('transforms link tag with inline rel="stylesheet"', () => {
     const code = `export default () => <head><link inline rel="stylesheet" href="./style.css" /></head>`
-    const result = transformJsx(code, 'inline', buildQueries)
+    const result = transformJsx(code, 'inline', buildQueries)?.code
 
     expect(result).toContain(`import __inline_0 from './style.css?__inline_build'`)
     expect(result).toContain('dangerouslySetInnerHTML={{__html: __inline_0}}')
@@ -27,7 +27,7 @@ describe('transformJsx', () => {
 
   test('preserves other attributes on script tags', () => {
     const code = `<script inline src="./app.js" type="module"></script>`
-    const result = transformJsx(code, 'inline', buildQueries)
+    const result = transformJsx(code, 'inline', buildQueries)?.code
 
     expect(result).toContain('type="module"')
     expect(result).toContain('dangerouslySetInnerHTML')
@@ -37,7 +37,7 @@ describe('transformJsx', () => {
 
   test('preserves other attributes on link tags', () => {
     const code = `<link inline rel="stylesheet" href="./style.css" media="print" />`
-    const result = transformJsx(code, 'inline', buildQueries)
+    const result = transformJsx(code, 'inline', buildQueries)?.code
 
     expect(result).toContain('media="print"')
     expect(result).toContain('<style')
@@ -58,7 +58,7 @@ export default () => (
     </body>
   </html>
 )`
-    const result = transformJsx(code, 'inline', buildQueries)
+    const result = transformJsx(code, 'inline', buildQueries)?.code
 
     expect(result).toContain(`import __inline_0 from './x.js?__inline_build'`)
     expect(result).toContain(`import __inline_1 from './y.js?__inline_build'`)
@@ -70,7 +70,7 @@ export default () => (
 
   test('supports custom attribute name', () => {
     const code = `<script data-inline src="./app.js"></script>`
-    const result = transformJsx(code, 'data-inline', buildQueries)
+    const result = transformJsx(code, 'data-inline', buildQueries)?.code
 
     expect(result).toContain(`import __inline_0 from './app.js?__inline_build'`)
     expect(result).toContain('dangerouslySetInnerHTML')
@@ -99,7 +99,7 @@ export default () => (
 
   test('handles self-closing script tags', () => {
     const code = `<script inline src="./app.js" />`
-    const result = transformJsx(code, 'inline', buildQueries)
+    const result = transformJsx(code, 'inline', buildQueries)?.code
 
     expect(result).toContain(`import __inline_0 from './app.js?__inline_build'`)
     expect(result).toContain('dangerouslySetInnerHTML')
@@ -110,9 +110,178 @@ export default () => (
       <script inline src="./app.js"></script>
       <link inline rel="stylesheet" href="./style.css" />
     `
-    const result = transformJsx(code, 'inline', buildQueries)
+    const result = transformJsx(code, 'inline', buildQueries)?.code
 
     expect(result).toContain(`import __inline_0 from './app.js?__inline_build'`)
     expect(result).toContain(`import __inline_1 from './style.css?__inline_build'`)
   })
+
+  test('adds a CSP nonce to generated elements', () => {
+    const code = `
+      <script inline src="./app.js"></script>
+      <link inline rel="stylesheet" href="./style.css" />
+    `
+    const result = transformJsx(code, 'inline', buildQueries, { csp: { mode: 'nonce', nonce: 'abc123' } })?.code
+
+    expect(result).toContain('<script nonce="abc123" dangerouslySetInnerHTML={{__html: __inline_0}}></script>')
+    expect(result).toContain('<style nonce="abc123" dangerouslySetInnerHTML={{__html: __inline_1}} />')
+  })
+
+  test('passes a per-tag size budget with the import', () => {
+    const code = `<script inline="8kb" src="./app.js"></script>`
+    const result = transformJsx(code, 'inline', buildQueries)?.code
+
+    expect(result).toContain(`import __inline_0 from './app.js?__inline_build&maxSize=8192'`)
+  })
+
+  test('passes the raw flag with the import', () => {
+    const code = `<link inline="raw 8kb" rel="stylesheet" href="./style.css" />`
+    const result = transformJsx(code, 'inline', buildQueries)?.code
+
+    expect(result).toContain(`import __inline_0 from './style.css?__inline_build&maxSize=8192&raw'`)
+  })
+
+  test('passes an inline-format override as a query parameter', () => {
+    const code = `<script inline inline-format="esm" type="module" src="./app.js"></script>`
+    const result = transformJsx(code, 'inline', buildQueries)?.code
+
+    expect(result).toContain(`import __inline_0 from './app.js?__inline_build&format=esm'`)
+    expect(result).toContain('<script type="module" dangerouslySetInnerHTML={{__html: __inline_0}}></script>')
+  })
+
+  test('uses innerHTML for Solid', () => {
+    const code = `<script inline src="./app.js"></script><link inline rel="stylesheet" href="./style.css" />`
+    const result = transformJsx(code, 'inline', buildQueries, { jsx: { runtime: 'solid' } })?.code
+
+    expect(result).toContain('<script innerHTML={__inline_0}></script>')
+    expect(result).toContain('<style innerHTML={__inline_1} />')
+  })
+
+  test('detects the runtime from a @jsxImportSource pragma', () => {
+    const code = `/** @jsxImportSource solid-js */\n<script inline src="./app.js"></script>`
+    const result = transformJsx(code, 'inline', buildQueries)?.code
+
+    expect(result).toContain('<script innerHTML={__inline_0}></script>')
+  })
+
+  test('detects the runtime from the importSource option', () => {
+    const code = `<script inline src="./app.js"></script>`
+
+    expect(transformJsx(code, 'inline', buildQueries, { jsx: { importSource: 'vue' } })?.code).toContain('innerHTML={__inline_0}')
+    expect(transformJsx(code, 'inline', buildQueries, { jsx: { importSource: 'preact' } })?.code).toContain(
+      'dangerouslySetInnerHTML={{__html: __inline_0}}',
+    )
+  })
+
+  test('puts imports in the frontmatter of Astro components', () => {
+    const code = `---\nconst title = 'Hi'\n---\n<head><link inline rel="stylesheet" href="./style.css" /></head>`
+    const result = transformJsx(code, 'inline', buildQueries, undefined, '/src/pages/index.astro')?.code
+
+    expect(result).toBe(
+      `---\nimport __inline_0 from './style.css?__inline_build'\nconst title = 'Hi'\n---\n<head><style is:inline set:html={__inline_0} /></head>`,
+    )
+  })
+
+  test('adds frontmatter to Astro components without one', () => {
+    const code = `<script inline src="./app.js"></script>`
+    const result = transformJsx(code, 'inline', buildQueries, { jsx: { runtime: 'astro' } })?.code
+
+    expect(result).toBe(`---\nimport __inline_0 from './app.js?__inline_build'\n---\n<script is:inline set:html={__inline_0}></script>`)
+  })
+
+  test('evaluates Astro expression attributes with spaces and braces', () => {
+    const code = [
+      '---',
+      `const dir = './scripts'`,
+      '---',
+      `<script inline src={dir + '/app.js'} data-x={{ a: 1 }['a'] > 0 ? 'y' : 'n'}></script>`,
+      `<link {...props} inline rel="stylesheet" href={\`\${dir}/{style}.css\`} />`,
+    ].join('\n')
+    const result = transformJsx(code, 'inline', buildQueries, undefined, '/src/pages/index.astro')?.code
+
+    expect(result).toContain(`import __inline_0 from './scripts/app.js?__inline_build'`)
+    expect(result).toContain(`import __inline_1 from './scripts/{style}.css?__inline_build'`)
+    expect(result).toContain(`<script data-x={{ a: 1 }['a'] > 0 ? 'y' : 'n'} is:inline set:html={__inline_0}></script>`)
+    expect(result).toContain('<style {...props} is:inline set:html={__inline_1} />')
+  })
+
+  test('uses innerHTML in the JSX script blocks of Vue components', () => {
+    const code = `export default () => <script inline src="./app.js"></script>`
+    const result = transformJsx(code, 'inline', buildQueries, undefined, '/src/App.vue?vue&type=script&setup=true&lang.tsx')?.code
+
+    expect(result).toContain('<script innerHTML={__inline_0}></script>')
+  })
+
+  test('accepts a custom emitter', () => {
+    const code = `<script inline src="./app.js" defer></script>`
+    const result = transformJsx(code, 'inline', buildQueries, {
+      jsx: { runtime: ({ tag, attributes, content }) => `<${tag}${attributes} html={${content}} />` },
+    })?.code
+
+    expect(result).toContain('<script defer html={__inline_0} />')
+  })
+
+  test('ignores tags in strings and comments', () => {
+    const code = `const html = '<script inline src="./a.js"></script>'
+// <link inline rel="stylesheet" href="./b.css" />
+export default () => <div>{html}</div>`
+
+    expect(transformJsx(code, 'inline', buildQueries)).toBeNull()
+  })
+
+  test('resolves constant and template literal sources', () => {
+    const code = `const dir = './scripts'
+const clientUrl = \`\${dir}/client.js\`
+export default () => <head><script inline src={clientUrl}></script><link inline rel="stylesheet" href={'./' + 'style.css'} /></head>`
+    const result = transformJsx(code, 'inline', buildQueries)?.code
+
+    expect(result).toContain(`import __inline_0 from './scripts/client.js?__inline_build'`)
+    expect(result).toContain(`import __inline_1 from './style.css?__inline_build'`)
+  })
+
+  test('resolves constants imported from another module', () => {
+    const code = `import { clientUrl } from './urls'
+export default () => <script inline src={clientUrl}></script>`
+    const loadModule = (specifier: string) =>
+      specifier === './urls' ? { id: '/src/urls.ts', code: `export const clientUrl: string = './client.ts'` } : null
+    const result = transformJsx(code, 'inline', buildQueries, undefined, { id: '/src/page.tsx', loadModule })?.code
+
+    expect(result).toContain(`import __inline_0 from './client.ts?__inline_build'`)
+  })
+
+  test('reports dynamic sources and leaves the tag external', () => {
+    const code = `export default ({ url }) => <script inline src={url} defer></script>`
+    const warnings: InlineDiagnostic[] = []
+    const result = transformJsx(code, 'inline', buildQueries, undefined, { id: 'page.jsx', warn: (d) => warnings.push(d) })?.code
+
+    expect(result).toBe(`export default ({ url }) => <script src={url} defer></script>`)
+    expect(warnings).toEqual([
+      { message: 'Cannot inline <script>: `src` refers to `url`, a function parameter', file: 'page.jsx', line: 1, column: 29 },
+    ])
+  })
+
+  test('fails on dynamic sources with strict', () => {
+    const code = `export default ({ url }) => <script inline src={url}></script>`
+
+    expect(() => transformJsx(code, 'inline', buildQueries, { strict: true }, { id: 'page.jsx' })).toThrow(
+      '[unplugin-inline-source] page.jsx:1:29: Cannot inline <script>: `src` refers to `url`, a function parameter',
+    )
+  })
+
+  test('applies mode conditions and the when callback', () => {
+    const code = `export default () => <><script inline="!dev" src="./a.js"></script><link inline rel="stylesheet" href="./a.css" /></>`
+    const result = transformJsx(code, 'inline', buildQueries, { mode: 'development', when: (ctx) => ctx.type === 'js' }, {
+      id: 'page.jsx',
+    })?.code
+
+    expect(result).toBe(`export default () => <><script src="./a.js"></script><link rel="stylesheet" href="./a.css" /></>`)
+  })
+
+  test('returns a source map', () => {
+    const code = `export default () => <script inline src="./app.js"></script>`
+    const result = transformJsx(code, 'inline', buildQueries, undefined, { id: 'page.jsx' })
+
+    expect(result?.map.sources).toEqual(['page.jsx'])
+    expect(result?.map.mappings).not.toBe('')
+  })
 })
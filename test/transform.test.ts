@@ -1,5 +1,6 @@
-import { test, expect, describe } from 'bun:test'
-import { transformHtml, type ResolveContent } from '../src/core'
+import { test, expect, describe, spyOn } from 'bun:test'
+import { createHash } from 'node:crypto'
+import { transformHtml, type InlinedAsset, type InlineConditionContext, type TransformContentContext, type SkippedAsset, type InlineDiagnostic, type ResolveContent } from '../src/core'
 
 function createResolver(files: Record<string, string>): ResolveContent {
   return async (path) => files[path] ?? null
@@ -59,14 +60,15 @@ describe('transformHtml', () => {
     expect(result).not.toContain('</script>"')
   })
 
-  test('leaves tag unchanged when file cannot be resolved', async () => {
-    const html = '<script inline src="./missing.js"></script>'
-    const resolve = createResolver({})
+  test('keeps unresolved tags without the inline attribute', async () => {
+    const html = '<script inline="maxSize=1kb" type="module" src="./missing.js"></script>\n<link inline rel="stylesheet" href="./missing.css">'
+    const warn = spyOn(console, 'warn').mockImplementation(() => {})
 
-    const result = await transformHtml(html, resolve)
+    const result = await transformHtml(html, createResolver({}))
 
-    expect(result).toContain('src="./missing.js"')
-    expect(result).toContain('inline')
+    expect(result).toBe('<script type="module" src="./missing.js"></script>\n<link rel="stylesheet" href="./missing.css" />')
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
   })
 
   test('does not modify tags without inline attribute', async () => {
@@ -138,4 +140,347 @@ describe('transformHtml', () => {
 
     expect(result).toContain('console.log("already inline")')
   })
+
+  test('adds a CSP nonce to inlined blocks', async () => {
+    const html = '<script inline src="./app.js"></script><link inline rel="stylesheet" href="./style.css" />'
+    const resolve = createResolver({ './app.js': 'alert(1)', './style.css': '.a{}' })
+
+    const result = await transformHtml(html, resolve, { csp: { mode: 'nonce', nonce: 'abc123' } })
+
+    expect(result).toContain('<script nonce="abc123">alert(1)</script>')
+    expect(result).toContain('<style nonce="abc123">.a{}</style>')
+  })
+
+  test('keeps an explicit nonce attribute', async () => {
+    const html = '<script inline nonce="own" src="./app.js"></script>'
+    const resolve = createResolver({ './app.js': 'alert(1)' })
+
+    const result = await transformHtml(html, resolve, { csp: { mode: 'nonce', nonce: 'abc123' } })
+
+    expect(result).toContain('<script nonce="own">alert(1)</script>')
+  })
+
+  test('inserts a CSP meta tag with hashes of the escaped content', async () => {
+    const html = '<html><head></head><body><script inline src="./app.js"></script></body></html>'
+    const resolve = createResolver({ './app.js': 'var x = "</script>"' })
+
+    const result = await transformHtml(html, resolve, { csp: { mode: 'hash' } })
+    const hash = createHash('sha256').update('var x = "<\\/script>"').digest('base64')
+
+    expect(result).toContain(`<head><meta http-equiv="Content-Security-Policy" content="script-src 'self' 'sha256-${hash}'">`)
+  })
+
+  test('merges hashes into an existing CSP meta tag', async () => {
+    const html = `<head><meta http-equiv="Content-Security-Policy" content="default-src 'self'; style-src 'none'"><link inline rel="stylesheet" href="./style.css" /></head><script inline src="./app.js"></script>`
+    const resolve = createResolver({ './app.js': 'alert(1)', './style.css': '.a{}' })
+
+    const result = await transformHtml(html, resolve, { csp: { mode: 'hash', algorithm: 'sha384' } })
+    const scriptHash = createHash('sha384').update('alert(1)').digest('base64')
+    const styleHash = createHash('sha384').update('.a{}').digest('base64')
+
+    expect(result).toContain(
+      `content="default-src 'self'; style-src 'sha384-${styleHash}'; script-src 'self' 'sha384-${scriptHash}'"`,
+    )
+    expect(result.match(/Content-Security-Policy/g)).toHaveLength(1)
+  })
+
+  test('reports inlined blocks with their CSP hash', async () => {
+    const html = '<script inline src="./app.js"></script>'
+    const resolve = createResolver({ './app.js': 'alert(1)' })
+    const inlined: InlinedAsset[] = []
+
+    await transformHtml(html, resolve, { csp: { mode: 'hash', meta: false } }, (asset) => inlined.push(asset))
+
+    expect(inlined).toEqual([{
+      type: 'js',
+      src: './app.js',
+      content: 'alert(1)',
+      hash: `'sha256-${createHash('sha256').update('alert(1)').digest('base64')}'`,
+    }])
+  })
+
+  test('ignores tags inside comments, template, noscript and textarea', async () => {
+    const html = [
+      '<!-- <script inline src="./app.js"></script> -->',
+      '<template><script inline src="./app.js"></script></template>',
+      '<noscript><link inline rel="stylesheet" href="./style.css"></noscript>',
+      '<textarea><script inline src="./app.js"></script></textarea>',
+    ].join('')
+    const resolve = createResolver({ './app.js': 'alert(1)', './style.css': '.a{}' })
+
+    const result = await transformHtml(html, resolve)
+
+    expect(result).toBe(html)
+  })
+
+  test('handles attribute values containing ">"', async () => {
+    const html = '<script inline data-x="a>b" src="./app.js"></script>'
+    const resolve = createResolver({ './app.js': 'alert(1)' })
+
+    const result = await transformHtml(html, resolve)
+
+    expect(result).toBe('<script data-x="a>b">alert(1)</script>')
+  })
+
+  test('decodes character references in src and href', async () => {
+    const html = '<script inline src="./app.js?a=1&amp;b=2"></script><link inline rel="stylesheet" href="./&#115;tyle.css">'
+    const resolve = createResolver({ './app.js?a=1&b=2': 'alert(1)', './style.css': '.a{}' })
+
+    const result = await transformHtml(html, resolve)
+
+    expect(result).toBe('<script>alert(1)</script><style>.a{}</style>')
+  })
+
+  test('leaves the rest of the document byte-for-byte unchanged', async () => {
+    const html = `<!DOCTYPE html>\n<HTML lang=en>\n<head>\n  <META charset=utf-8>\n  <LINK rel=stylesheet INLINE href='./style.css' title="a &amp; b">\n</head>\n<body>\n  <script>if (a < b) {}</script>\n  <SCRIPT inline src=./app.js></SCRIPT>\n</body>\n</HTML>\n`
+    const resolve = createResolver({ './app.js': 'alert(1)', './style.css': '.a{}' })
+
+    const result = await transformHtml(html, resolve)
+
+    expect(result).toBe(
+      `<!DOCTYPE html>\n<HTML lang=en>\n<head>\n  <META charset=utf-8>\n  <style title="a &amp; b">.a{}</style>\n</head>\n<body>\n  <script>if (a < b) {}</script>\n  <script>alert(1)</script>\n</body>\n</HTML>\n`,
+    )
+  })
+
+  test('keeps content over maxSize external and drops the attribute', async () => {
+    const html = '<script inline src="./big.js"></script><script inline src="./small.js"></script>'
+    const resolve = createResolver({ './big.js': 'x'.repeat(2048), './small.js': 'y' })
+    const warn = spyOn(console, 'warn').mockImplementation(() => {})
+
+    const result = await transformHtml(html, resolve, { maxSize: '1kb' })
+
+    expect(result).toBe('<script src="./big.js"></script><script>y</script>')
+    expect(warn).toHaveBeenCalledWith(
+      '[unplugin-inline-source] ./big.js is 2 KB, over the inline budget of 1 KB; keeping it external',
+    )
+    warn.mockRestore()
+  })
+
+  test('uses a size given as the attribute value as a per-tag budget', async () => {
+    const html = '<link inline="10b" rel="stylesheet" href="./style.css"><script inline="4kb" src="./app.js"></script>'
+    const resolve = createResolver({ './style.css': '.a { color: red; }', './app.js': 'x'.repeat(2048) })
+    const warn = spyOn(console, 'warn').mockImplementation(() => {})
+
+    const result = await transformHtml(html, resolve, { maxSize: 1024 })
+
+    expect(result).toBe(`<link rel="stylesheet" href="./style.css" /><script>${'x'.repeat(2048)}</script>`)
+    warn.mockRestore()
+  })
+
+  test('keeps tags external when their mode condition fails', async () => {
+    const html = '<script inline="production" src="./a.js"></script><script inline="!dev" src="./b.js"></script><script inline="dev" src="./c.js"></script>'
+    const resolve = createResolver({ './a.js': 'a', './b.js': 'b', './c.js': 'c' })
+
+    const result = await transformHtml(html, resolve, { mode: 'development' })
+
+    expect(result).toBe('<script src="./a.js"></script><script src="./b.js"></script><script>c</script>')
+  })
+
+  test('inlines boolean-like and unknown attribute values unconditionally', async () => {
+    const html = '<script inline="true" src="./a.js"></script><script inline="inline" src="./b.js"></script><script inline="!staging" src="./c.js"></script>'
+    const resolve = createResolver({ './a.js': 'a', './b.js': 'b', './c.js': 'c' })
+
+    expect(await transformHtml(html, resolve, { mode: 'production' })).toBe('<script>a</script><script>b</script><script>c</script>')
+    expect(await transformHtml(html, resolve, { mode: 'staging' })).toBe('<script>a</script><script>b</script><script src="./c.js"></script>')
+  })
+
+  test('asks the when callback about each tag', async () => {
+    const html = '<link inline rel="stylesheet" href="./style.css"><script inline="production 4kb" src="./app.js"></script>'
+    const resolve = createResolver({ './style.css': '.a{}', './app.js': 'run()' })
+    const contexts: InlineConditionContext[] = []
+
+    const result = await transformHtml(html, resolve, {
+      mode: 'production',
+      when: (ctx) => {
+        contexts.push(ctx)
+        return ctx.type === 'js'
+      },
+    }, undefined, undefined, { file: 'index.html', framework: 'vite' })
+
+    expect(result).toBe('<link rel="stylesheet" href="./style.css" /><script>run()</script>')
+    expect(contexts).toEqual([
+      { mode: 'production', framework: 'vite', file: 'index.html', path: './style.css', type: 'css' },
+      { mode: 'production', framework: 'vite', file: 'index.html', path: './app.js', type: 'js' },
+    ])
+  })
+
+  test('passes content through transformContent before budgeting and escaping', async () => {
+    const html = '<script inline src="./app.js"></script><link inline="10b" rel="stylesheet" href="./style.css">'
+    const resolve = createResolver({ './app.js': '/*! banner */run("__ENV__")', './style.css': '.a{color:red}' })
+    const contexts: TransformContentContext[] = []
+
+    const result = await transformHtml(html, resolve, {
+      transformContent: async (content, ctx) => {
+        contexts.push(ctx)
+        return ctx.type === 'js' ? content.replace('/*! banner */', '').replace('__ENV__', '</script>') : `${content}.b{}`
+      },
+    }, undefined, undefined, { file: 'index.html', framework: 'vite' })
+
+    expect(result).toBe('<script>run("<\\/script>")</script><link rel="stylesheet" href="./style.css" />')
+    expect(contexts).toEqual([
+      { type: 'js', filePath: './app.js', host: 'index.html', framework: 'vite' },
+      { type: 'css', filePath: './style.css', host: 'index.html', framework: 'vite' },
+    ])
+  })
+
+  test('minifies resolved content with minify, except tags marked raw', async () => {
+    const html = '<script inline src="./app.js"></script><link inline rel="stylesheet" href="./a.css"><link inline="raw" rel="stylesheet" href="./b.css">'
+    const resolve = createResolver({
+      './app.js': '/*! (c) */\n// run it\nconst url = "http://x"  // trailing\nrun( url )\n',
+      './a.css': '/* theme */\n.a :hover {\n  color: red ;\n}\n',
+      './b.css': '.b {\n  color: blue;\n}\n',
+    })
+
+    const result = await transformHtml(html, resolve, { minify: true })
+
+    expect(result).toBe('<script>/*! (c) */const url="http://x";run(url);</script><style>.a :hover{color:red}</style><style>.b {\n  color: blue;\n}\n</style>')
+  })
+
+  test('only inlines files allowed by the assets filter', async () => {
+    const html = '<script inline src="./vendor/lib.js"></script><script inline src="./app.js"></script><link inline rel="stylesheet" href="./a.css">'
+    const resolve = createResolver({ './vendor/lib.js': 'lib()', './app.js': 'run()', './a.css': '.a{}' })
+
+    const result = await transformHtml(html, resolve, {
+      assets: { include: ['**/*.js', (path) => path.endsWith('.css')], exclude: /\/vendor\// },
+    })
+
+    expect(result).toBe('<script src="./vendor/lib.js"></script><script>run()</script><style>.a{}</style>')
+  })
+
+  test('reports tags left external or unresolved to onSkip', async () => {
+    const html = '<script inline src="./big.js"></script><link inline rel="stylesheet" href="./missing.css">'
+    const resolve = createResolver({ './big.js': 'x'.repeat(2048) })
+    const warn = spyOn(console, 'warn').mockImplementation(() => {})
+    const skipped: SkippedAsset[] = []
+
+    await transformHtml(html, resolve, { maxSize: '1kb' }, undefined, undefined, undefined, (asset) => skipped.push(asset))
+
+    expect(skipped).toEqual([
+      { type: 'js', src: './big.js', status: 'external', content: 'x'.repeat(2048) },
+      { type: 'css', src: './missing.css', status: 'failed' },
+    ])
+    warn.mockRestore()
+  })
+
+  test('fails on unresolved files with strict, located at the tag', async () => {
+    const html = '<html>\n  <script inline src="./missing.js"></script>\n</html>'
+    const errors: InlineDiagnostic[] = []
+
+    await transformHtml(html, createResolver({}), { strict: true }, undefined, undefined, {
+      file: 'index.html',
+      error: (d) => errors.push(d),
+    })
+
+    expect(errors).toEqual([{ message: 'Could not resolve: ./missing.js', file: 'index.html', line: 2, column: 3 }])
+    await expect(transformHtml(html, createResolver({}), { strict: true }, undefined, undefined, { file: 'index.html' }))
+      .rejects.toThrow('[unplugin-inline-source] index.html:2:3: Could not resolve: ./missing.js')
+  })
+
+  test('measures the gzip size when maxSizeGzip is set', async () => {
+    const html = '<script inline src="./app.js"></script>'
+    const resolve = createResolver({ './app.js': 'x'.repeat(4096) })
+
+    const result = await transformHtml(html, resolve, { maxSize: '1kb', maxSizeGzip: true })
+
+    expect(result).toBe(`<script>${'x'.repeat(4096)}</script>`)
+  })
+
+  test('fails on an exceeded budget with failOnBudget', async () => {
+    const html = '<script inline src="./app.js"></script>'
+    const resolve = createResolver({ './app.js': 'x'.repeat(2048) })
+
+    await expect(transformHtml(html, resolve, { maxSize: '1kb', failOnBudget: true })).rejects.toThrow(
+      './app.js is 2 KB, over the inline budget of 1 KB',
+    )
+  })
+
+  test('fails an exceeded budget through the error channel, at the tag', async () => {
+    const html = '<html>\n  <script inline src="./app.js"></script>'
+    const resolve = createResolver({ './app.js': 'x'.repeat(2048) })
+    const errors: InlineDiagnostic[] = []
+
+    const result = await transformHtml(html, resolve, { maxSize: '1kb', failOnBudget: true }, undefined, undefined, {
+      file: 'index.html',
+      error: (diagnostic) => errors.push(diagnostic),
+    })
+
+    expect(errors).toEqual([{ message: './app.js is 2 KB, over the inline budget of 1 KB', file: 'index.html', line: 2, column: 3 }])
+    expect(result).toBe('<html>\n  <script src="./app.js"></script>')
+  })
+
+  test('embeds the referenced map as a data URI with sourcemap: inline', async () => {
+    const html = '<script inline src="/assets/app.js"></script>'
+    const map = '{"version":3,"sources":["app.ts"],"mappings":"AAAA"}'
+    const resolve = createResolver({
+      '/assets/app.js': 'run()\n//# sourceMappingURL=app.js.map\n',
+      '/assets/app.js.map': map,
+    })
+
+    const result = await transformHtml(html, resolve, { sourcemap: 'inline' })
+
+    const dataUri = `data:application/json;charset=utf-8;base64,${Buffer.from(map).toString('base64')}`
+    expect(result).toBe(
+      `<script>run()\n//# sourceURL=/assets/app.js\n//# sourceMappingURL=${dataUri}</script>`,
+    )
+  })
+
+  test('points the map reference at the map file with sourcemap: external', async () => {
+    const html = '<link inline rel="stylesheet" href="/assets/style.css">'
+    const resolve = createResolver({ '/assets/style.css': '.a{}\n/*# sourceMappingURL=style.css.map */' })
+
+    const result = await transformHtml(html, resolve, { sourcemap: 'external' })
+
+    expect(result).toBe(
+      '<style>.a{}\n/*# sourceURL=/assets/style.css */\n/*# sourceMappingURL=/assets/style.css.map */</style>',
+    )
+  })
+
+  test('drops the map reference with sourcemap: hidden', async () => {
+    const html = '<script inline src="./app.js"></script>'
+    const resolve = createResolver({ './app.js': 'run()\n//# sourceMappingURL=app.js.map' })
+
+    const result = await transformHtml(html, resolve, { sourcemap: 'hidden' })
+
+    expect(result).toBe('<script>run()\n//# sourceURL=./app.js</script>')
+  })
+
+  test('rebases relative CSS URLs from the stylesheet to the page', async () => {
+    const html = '<link inline rel="stylesheet" href="/assets/css/theme.css">'
+    const css = [
+      '@import "./base.css";',
+      "@font-face { src: url(../fonts/x.woff2?v=1) format('woff2'), url('https://cdn.example/x.woff') }",
+      '/* url(../ignored.png) */',
+      '.a { background: url("img/a b.png"), url(#mask), url(data:image/png;base64,AAAA) }',
+    ].join('\n')
+    const resolve = createResolver({ '/assets/css/theme.css': css })
+
+    const result = await transformHtml(html, resolve)
+
+    expect(result).toBe(`<style>${[
+      '@import "/assets/css/base.css";',
+      "@font-face { src: url(/assets/fonts/x.woff2?v=1) format('woff2'), url('https://cdn.example/x.woff') }",
+      '/* url(../ignored.png) */',
+      '.a { background: url("/assets/css/img/a b.png"), url(#mask), url(data:image/png;base64,AAAA) }',
+    ].join('\n')}</style>`)
+  })
+
+  test('keeps URLs of stylesheets next to the page unchanged', async () => {
+    const html = '<link inline rel="stylesheet" href="style.css">'
+    const resolve = createResolver({ 'style.css': '.a { background: url(./a.png) }' })
+
+    const result = await transformHtml(html, resolve)
+
+    expect(result).toBe('<style>.a { background: url(./a.png) }</style>')
+  })
+
+  test('embeds small assets as data URIs with cssAssetsInlineLimit', async () => {
+    const html = '<link inline rel="stylesheet" href="css/style.css">'
+    const resolve = createResolver({ 'css/style.css': '.a { background: url(a.png) } .b { background: url(b.png) }' })
+    const assets: Record<string, Uint8Array> = { 'css/a.png': new Uint8Array([1, 2, 3]), 'css/b.png': new Uint8Array(64) }
+    const resolveAsset = async (path: string) => assets[path] ?? null
+
+    const result = await transformHtml(html, resolve, { cssAssetsInlineLimit: 16 }, undefined, resolveAsset)
+
+    expect(result).toBe('<style>.a { background: url(data:image/png;base64,AQID) } .b { background: url(css/b.png) }</style>')
+  })
 })
@@ -0,0 +1,308 @@
+import { test, expect, describe } from 'bun:test'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { build, createServer, type Plugin } from 'vite'
+import inlineSourceVite from '../src/vite'
+import { createProject } from './project'
+
+type Output = { type: 'chunk' | 'asset'; fileName: string; code?: string; source?: string | Uint8Array }
+
+async function viteBuild(root: string, input: string, plugins: Plugin[] = [], config: Record<string, unknown> = {}): Promise<Output[]> {
+  const result = await build({
+    root,
+    configFile: false,
+    logLevel: 'silent',
+    plugins: [...plugins, inlineSourceVite()],
+    ...config,
+    build: { write: false, minify: false, rollupOptions: { input }, ...(config.build as object) },
+  })
+  const outputs = Array.isArray(result) ? result : [result]
+  return outputs.flatMap((output) => ('output' in output ? (output.output as Output[]) : []))
+}
+
+function chunkCode(outputs: Output[]): string {
+  return outputs.filter((output) => output.type === 'chunk').map((output) => output.code).join('\n')
+}
+
+// Replaces `__GREETING__` in TypeScript modules, counting the builds it takes part in
+function greetingPlugin(): Plugin & { builds: number } {
+  const plugin = {
+    name: 'greeting',
+    builds: 0,
+    buildStart() {
+      plugin.builds++
+    },
+    transform(code: string, id: string) {
+      if (id.endsWith('.ts')) return code.replace('__GREETING__', JSON.stringify('hello from a plugin'))
+    },
+  }
+  return plugin
+}
+
+describe('vite', () => {
+  test('builds inline scripts with the project plugins, define and target', async () => {
+    const project = createProject({
+      'main.js': `import app from './app.ts?inline-source'\nconsole.log(app)\n`,
+      'app.ts': `const message: string = __GREETING__ + __SUFFIX__\nconst run = async () => message\nrun().then(console.log)\n`,
+    })
+
+    const outputs = await viteBuild(project.root, project.path('main.js'), [greetingPlugin()], {
+      define: { __SUFFIX__: JSON.stringify('!') },
+      build: { target: 'es2015' },
+    })
+    const code = chunkCode(outputs)
+
+    expect(code).toContain('hello from a plugin')
+    expect(code).not.toContain('__SUFFIX__')
+    expect(code).not.toContain('async ()')
+    expect(code).not.toContain(': string')
+  })
+
+  test('reuses dev builds until one of their modules changes', async () => {
+    const project = createProject({
+      'app.ts': `import { message } from './message'\nconsole.log(message)\n`,
+      'message.ts': `export const message: string = __GREETING__\n`,
+    })
+    const greeting = greetingPlugin()
+    const server = await createServer({
+      root: project.root,
+      configFile: false,
+      logLevel: 'silent',
+      server: { middlewareMode: true, watch: null, ws: false },
+      plugins: [greeting, inlineSourceVite()],
+    })
+    try {
+      const { pluginContainer } = server.environments.client
+      const id = `${project.path('app.ts')}?__inline_build`
+      const builds = greeting.builds
+
+      const first = await pluginContainer.load(id)
+      await pluginContainer.load(id)
+      expect(String(first)).toContain('hello from a plugin')
+      expect(greeting.builds - builds).toBe(1)
+
+      const plugin = server.config.plugins.find((p) => p.name === 'unplugin-inline-source')!
+      const handleHotUpdate = plugin.handleHotUpdate as (ctx: unknown) => Promise<void>
+      await handleHotUpdate.call({}, { file: project.path('message.ts'), server: { ws: { send: () => {} } } })
+      await pluginContainer.load(id)
+      expect(greeting.builds - builds).toBe(2)
+    } finally {
+      await server.close()
+    }
+  })
+
+  test('inlines dev scripts through the Vite pipeline and refreshes pages on edits', async () => {
+    const project = createProject({
+      'index.html': `<html><head><link inline rel="stylesheet" href="/style.css"><script inline src="/app.ts"></script></head></html>`,
+      'app.ts': `import { message } from './message'\nconsole.log(message)\n`,
+      'message.ts': `export const message: string = __GREETING__\n`,
+      'style.css': `.app { color: red }\n`,
+    })
+    const server = await createServer({
+      root: project.root,
+      configFile: false,
+      logLevel: 'silent',
+      server: { middlewareMode: true, watch: null, ws: false },
+      plugins: [greetingPlugin(), inlineSourceVite()],
+    })
+    try {
+      const html = await server.transformIndexHtml('/index.html', readFileSync(project.path('index.html'), 'utf-8'))
+      expect(html).toContain('hello from a plugin')
+      expect(html).not.toContain(': string')
+      expect(html).not.toContain('import {')
+      expect(html).toContain('.app { color: red }')
+
+      const sent: unknown[] = []
+      const plugin = server.config.plugins.find((p) => p.name === 'unplugin-inline-source')!
+      const handleHotUpdate = plugin.handleHotUpdate as (ctx: unknown) => Promise<void>
+      // Invalidate the changed module as Vite's watcher does before the hook
+      const edit = (file: string) => {
+        server.moduleGraph.onFileChange(project.path(file))
+        return handleHotUpdate.call({}, { file: project.path(file), server: { ws: { send: (payload: unknown) => sent.push(payload) } } })
+      }
+
+      await edit('message.ts')
+      expect(sent).toEqual([{ type: 'full-reload', path: '/index.html' }])
+
+      sent.length = 0
+      writeFileSync(project.path('style.css'), `.app { color: blue }\n`)
+      await edit('style.css')
+      expect(sent).toHaveLength(1)
+      expect(sent[0]).toMatchObject({ type: 'custom', data: { content: expect.stringContaining('color: blue') } })
+    } finally {
+      await server.close()
+    }
+  })
+
+  test('refreshes inlined dev styles when an imported partial changes', async () => {
+    const project = createProject({
+      'index.html': `<html><head><link inline rel="stylesheet" href="/style.css"></head></html>`,
+      'style.css': `@import './partials/base.css';\n.app { color: red }\n`,
+      'partials/base.css': `@import './reset.css';\n.base { margin: 0 }\n`,
+      'partials/reset.css': `.reset { padding: 0 }\n`,
+    })
+    const server = await createServer({
+      root: project.root,
+      configFile: false,
+      logLevel: 'silent',
+      server: { middlewareMode: true, watch: null, ws: false },
+      plugins: [inlineSourceVite()],
+    })
+    try {
+      const html = await server.transformIndexHtml('/index.html', readFileSync(project.path('index.html'), 'utf-8'))
+      expect(html).toContain('.reset { padding: 0 }')
+
+      const sent: unknown[] = []
+      const plugin = server.config.plugins.find((p) => p.name === 'unplugin-inline-source')!
+      const handleHotUpdate = plugin.handleHotUpdate as (ctx: unknown) => Promise<void>
+      writeFileSync(project.path('partials/reset.css'), `.reset { padding: 4px }\n`)
+      server.moduleGraph.onFileChange(project.path('partials/reset.css'))
+      await handleHotUpdate.call({}, { file: project.path('partials/reset.css'), server: { ws: { send: (payload: unknown) => sent.push(payload) } } })
+
+      expect(sent).toHaveLength(1)
+      expect(sent[0]).toMatchObject({ type: 'custom', data: { content: expect.stringContaining('padding: 4px') } })
+    } finally {
+      await server.close()
+    }
+  })
+
+  test('inlines tagged entry scripts and stylesheets into the page', async () => {
+    const project = createProject({
+      'index.html': `<html><head><link inline rel="stylesheet" href="/style.css"><script type="module" inline src="/app.js"></script></head></html>`,
+      'app.js': `console.log('app')\n`,
+      'style.css': `.app { color: red }\n`,
+    })
+
+    const outputs = await viteBuild(project.root, project.path('index.html'))
+    const html = String(outputs.find((output) => output.fileName === 'index.html')?.source)
+
+    expect(html).toContain(`console.log("app")`)
+    expect(html).toMatch(/<style>\.app\s*\{\s*color: red;?\s*\}\s*<\/style>/)
+    expect(html).not.toContain('/assets/')
+  })
+
+  test('inlines only the stylesheets whose tags ask for it', async () => {
+    const project = createProject({
+      'index.html': `<html><head><link inline rel="stylesheet" href="/a.css"><link rel="stylesheet" href="/c.css"><link inline rel="stylesheet" href="/vendor.css"></head></html>`,
+      'a.css': `.a { color: red }\n`,
+      'c.css': `.ccc { color: green }\n`,
+      'vendor.css': `.vendor { color: blue }\n`,
+    })
+
+    const outputs = await viteBuild(project.root, project.path('index.html'), [], {
+      plugins: [inlineSourceVite({ assets: { exclude: /vendor/ } })],
+    })
+    const html = String(outputs.find((output) => output.fileName === 'index.html')?.source)
+    const style = html.match(/<style>([\s\S]*?)<\/style>/)?.[1] ?? ''
+    const assets = outputs.filter((output) => output.fileName.endsWith('.css'))
+
+    expect(style).toContain('.a')
+    expect(style).not.toContain('.ccc')
+    expect(style).not.toContain('.vendor')
+    expect(assets).toHaveLength(1)
+    expect(String(assets[0].source)).toContain('.ccc')
+    expect(String(assets[0].source)).toContain('.vendor')
+    expect(html).toContain(`href="/${assets[0].fileName}"`)
+    expect(outputs.filter((output) => output.type === 'chunk')).toHaveLength(0)
+  })
+
+  test('strips the attribute from tags whose conditions fail', async () => {
+    const project = createProject({
+      'index.html': `<html><head><script inline="development" src="/legacy.js"></script><script type="module" src="/app.js"></script></head></html>`,
+      'app.js': `console.log('app')\n`,
+      'public/legacy.js': `console.log('legacy')\n`,
+    })
+
+    const outputs = await viteBuild(project.root, project.path('index.html'), [], { mode: 'production' })
+    const html = String(outputs.find((output) => output.fileName === 'index.html')?.source)
+
+    expect(html).toContain('<script src="/legacy.js"></script>')
+    expect(html).not.toContain('inline')
+  })
+
+  test('inlines only the scripts whose tags ask for it', async () => {
+    const project = createProject({
+      'index.html': `<html><head><script type="module" inline src="/a.ts"></script><script type="module" src="/b.js"></script></head></html>`,
+      'a.ts': `import { name } from './name'\nconsole.log(name)\n`,
+      'name.ts': `export const name: string = 'aaa'\n`,
+      'b.js': `console.log('bbb')\n`,
+    })
+
+    const outputs = await viteBuild(project.root, project.path('index.html'))
+    const html = String(outputs.find((output) => output.fileName === 'index.html')?.source)
+    const inlined = html.match(/<script type="module">([\s\S]*?)<\/script>/)?.[1] ?? ''
+
+    expect(inlined).toContain('"aaa"')
+    expect(inlined).not.toContain('import')
+    expect(html).not.toContain('bbb')
+    expect(chunkCode(outputs)).toContain('bbb')
+    expect(chunkCode(outputs)).not.toContain('aaa')
+  })
+
+  test('keeps stylesheets whose conditions fail out of the inlined styles', async () => {
+    const project = createProject({
+      'index.html': `<html><head><link inline rel="stylesheet" href="/a.css"><link inline="development" rel="stylesheet" href="/b.css"></head></html>`,
+      'a.css': `.a { color: red }\n`,
+      'b.css': `.bbb { color: blue }\n`,
+    })
+
+    const outputs = await viteBuild(project.root, project.path('index.html'), [], { mode: 'production' })
+    const html = String(outputs.find((output) => output.fileName === 'index.html')?.source)
+    const assets = outputs.filter((output) => output.fileName.endsWith('.css'))
+
+    expect(html).toMatch(/<style>\.a\s*\{\s*color: red;?\s*\}\s*<\/style>/)
+    expect(html).not.toContain('.bbb')
+    expect(html).not.toContain('inline')
+    expect(assets).toHaveLength(1)
+    expect(String(assets[0].source)).toContain('.bbb')
+  })
+
+  test('keeps files the assets option excludes external', async () => {
+    const project = createProject({
+      'index.html': `<html><head><link inline rel="stylesheet" href="/vendor.css"><script type="module" src="/main.js"></script></head></html>`,
+      'vendor.css': `.vendor { color: blue }\n`,
+      'main.js': `import vendor from './vendor.css?inline-source'\nconsole.log('vendor', vendor)\n`,
+    })
+
+    const warnings: string[] = []
+    const outputs = await build({
+      root: project.root,
+      configFile: false,
+      logLevel: 'silent',
+      plugins: [inlineSourceVite({ assets: { exclude: /vendor/ } })],
+      build: { write: false, minify: false, rollupOptions: { onwarn: (warning) => void warnings.push(warning.message) } },
+    })
+    const output = (Array.isArray(outputs) ? outputs : [outputs]).flatMap((result) => ('output' in result ? (result.output as Output[]) : []))
+    const html = String(output.find((file) => file.fileName === 'index.html')?.source)
+
+    expect(html).not.toContain('.vendor')
+    expect(html).toMatch(/<link rel="stylesheet" crossorigin href="\/assets\/[^"]+\.css">/)
+    expect(chunkCode(output)).toContain('const vendor = ""')
+    expect(warnings.some((warning) => warning.includes('excluded by the `assets` option'))).toBe(true)
+  })
+
+  test('forgets the inline tags of earlier builds', async () => {
+    const project = createProject({
+      'index.html': `<html><head><script type="module" inline src="/app.js"></script></head></html>`,
+      'app.js': `console.log('app')\n`,
+    })
+    const plugin = inlineSourceVite()
+    const htmlOf = async () => {
+      const outputs = await viteBuild(project.root, project.path('index.html'), [], { plugins: [plugin] })
+      return String(outputs.find((output) => output.fileName === 'index.html')?.source)
+    }
+
+    expect(await htmlOf()).toContain(`console.log("app")`)
+    writeFileSync(project.path('index.html'), `<html><head><script type="module" src="/app.js"></script></head></html>`)
+    expect(await htmlOf()).toMatch(/<script type="module" crossorigin src="\/assets\/[^"]+\.js"><\/script>/)
+  })
+
+  test('transforms the JSX script blocks of Vue components', async () => {
+    const plugin = inlineSourceVite() as Plugin
+    const transform = plugin.transform as (this: unknown, code: string, id: string) => Promise<{ code: string } | undefined>
+    const code = `export default () => <script inline src="./app.js"></script>`
+
+    const result = await transform.call({ warn() {}, error() {} }, code, '/src/App.vue?vue&type=script&setup=true&lang.tsx')
+
+    expect(result?.code).toContain('<script innerHTML={__inline_0}></script>')
+  })
+})
@@ -0,0 +1,157 @@
+import { test, expect, describe } from 'bun:test'
+import type { InlineEntry, TransformOptions } from '../src/core'
+import { createWebpackLikeHandler, type WebpackLikeAssets, type WebpackLikeHandlerOptions } from '../src/internal/bundler-helpers'
+import { inlineMarker } from '../src/internal/inline-utils'
+import { createBuildCache } from '../src/internal/build-cache'
+import { createProject } from './project'
+
+class RawSource {
+  constructor(private code: string) {}
+  source() {
+    return this.code
+  }
+}
+
+type ChildBuild = { entry: string; files?: string[] }
+
+/**
+ * A webpack-like compiler whose child compilations "build" an entry into
+ * `built(<entry>)`, reading `files` besides the entry. `stats.maxRunning` is
+ * the most child compilations seen running at once.
+ */
+function createCompiler(files: Record<string, string[]> = {}) {
+  const builds: ChildBuild[] = []
+  const stats = { running: 0, maxRunning: 0 }
+  const compilationTaps: Array<(compilation: unknown) => void> = []
+  const thisCompilationTaps: Array<(compilation: unknown) => void> = []
+
+  class EntryPlugin {
+    constructor(_context: string, private entry: string) {}
+    apply(child: { entry?: string }) {
+      child.entry = this.entry
+    }
+  }
+
+  const compiler = {
+    options: { mode: 'production' },
+    context: '/project',
+    hooks: {
+      compilation: { tap: (_: string, callback: (compilation: unknown) => void) => void compilationTaps.push(callback) },
+      thisCompilation: { tap: (_: string, callback: (compilation: unknown) => void) => void thisCompilationTaps.push(callback) },
+    },
+    webpack: { Compilation: { PROCESS_ASSETS_STAGE_OPTIMIZE_INLINE: 700 }, sources: { RawSource }, EntryPlugin },
+  }
+
+  /** Run one top-level compilation whose JS output is `assets` */
+  async function compile(assets: Record<string, string>) {
+    const fileDependencies = new Set<string>()
+    const output: WebpackLikeAssets = Object.fromEntries(Object.entries(assets).map(([name, code]) => [name, new RawSource(code)]))
+    let processAssets: ((assets: WebpackLikeAssets) => Promise<void>) | undefined
+    const compilation = {
+      hooks: { processAssets: { tapPromise: (_: unknown, callback: typeof processAssets) => void (processAssets = callback) } },
+      createChildCompiler: () => {
+        const child: { entry?: string; compile: (callback: (err: unknown, result: unknown) => void) => void } = {
+          compile: (callback) => {
+            const build = { entry: child.entry!, files: [child.entry!, ...(files[child.entry!] ?? [])] }
+            builds.push(build)
+            stats.maxRunning = Math.max(stats.maxRunning, ++stats.running)
+            setTimeout(() => {
+              stats.running--
+              callback(null, {
+                assets: { 'inline.js': new RawSource(`built(${JSON.stringify(build.entry)})`) },
+                errors: [],
+                fileDependencies: build.files,
+              })
+            }, 5)
+          },
+        }
+        return child
+      },
+      updateAsset: (name: string, source: RawSource) => void (output[name] = source),
+      emitAsset: (name: string, source: RawSource) => void (output[name] = source),
+      fileDependencies,
+      errors: [] as Error[],
+      warnings: [] as Error[],
+      outputOptions: { publicPath: '/' },
+    }
+    for (const tap of thisCompilationTaps) tap(compilation)
+    for (const tap of compilationTaps) tap(compilation)
+    await processAssets!(output)
+    const text = Object.fromEntries(Object.entries(output).map(([name, source]) => [name, String(source.source())]))
+    return { assets: text, fileDependencies, errors: compilation.errors, warnings: compilation.warnings }
+  }
+
+  return { compiler, compile, builds, stats }
+}
+
+function handlerOptions(inlineRegistry: Map<string, InlineEntry>, transformOptions: TransformOptions = {}): WebpackLikeHandlerOptions {
+  return { pluginName: 'unplugin-inline-source', framework: 'webpack', inlineRegistry, transformOptions }
+}
+
+function register(inlineRegistry: Map<string, InlineEntry>, filePath: string, fields: Partial<InlineEntry> = {}): string {
+  const marker = inlineMarker(filePath, 'js', fields, '/project')
+  inlineRegistry.set(marker, { ...fields, filePath, type: 'js' })
+  return marker
+}
+
+describe('createWebpackLikeHandler', () => {
+  test('watches the files a fresh child compilation read', async () => {
+    const { compiler, compile } = createCompiler({ '/project/app.ts': ['/project/shared.ts'] })
+    const inlineRegistry = new Map<string, InlineEntry>()
+    const marker = register(inlineRegistry, '/project/app.ts')
+    createWebpackLikeHandler(compiler, handlerOptions(inlineRegistry))
+
+    const { assets, fileDependencies } = await compile({ 'main.js': `const app = "${marker}"` })
+
+    expect(assets['main.js']).toBe(`const app = ${JSON.stringify('built("/project/app.ts")')}`)
+    expect([...fileDependencies]).toEqual(['/project/app.ts', '/project/shared.ts'])
+  })
+
+  test('rebuilds cached entries once the loaders or aliases change', async () => {
+    const project = createProject({ 'app.ts': 'run()' })
+    const buildCache = createBuildCache({})
+    const inlineRegistry = new Map<string, InlineEntry>()
+    const marker = register(inlineRegistry, project.path('app.ts'))
+    const buildsWith = async (config: Record<string, unknown>) => {
+      const { compiler, compile, builds } = createCompiler()
+      Object.assign(compiler.options, config)
+      createWebpackLikeHandler(compiler, { ...handlerOptions(inlineRegistry), buildCache })
+      await compile({ 'main.js': `const app = "${marker}"` })
+      return builds.length
+    }
+
+    expect(await buildsWith({ module: { rules: [{ test: /\.ts$/, loader: 'ts-loader' }] } })).toBe(1)
+    expect(await buildsWith({ module: { rules: [{ test: /\.ts$/, loader: 'ts-loader' }] } })).toBe(0)
+    expect(await buildsWith({ module: { rules: [{ test: /\.ts$/, loader: 'esbuild-loader' }] } })).toBe(1)
+    expect(await buildsWith({ module: { rules: [{ test: /\.ts$/, loader: 'esbuild-loader' }] }, resolve: { alias: { '@': './src' } } })).toBe(1)
+  })
+
+  test('builds each file once for all the markers importing it', async () => {
+    const { compiler, compile, builds } = createCompiler()
+    const inlineRegistry = new Map<string, InlineEntry>()
+    const small = register(inlineRegistry, '/project/app.ts', { maxSize: 1000 })
+    const large = register(inlineRegistry, '/project/app.ts', { maxSize: 2000 })
+    const other = register(inlineRegistry, '/project/other.ts')
+    createWebpackLikeHandler(compiler, handlerOptions(inlineRegistry))
+
+    const { assets } = await compile({ 'main.js': `["${small}", "${other}"]`, 'lazy.js': `["${large}", "${small}"]` })
+
+    expect(builds.map((build) => build.entry).sort()).toEqual(['/project/app.ts', '/project/other.ts'])
+    const app = JSON.stringify('built("/project/app.ts")')
+    expect(assets['main.js']).toBe(`[${app}, ${JSON.stringify('built("/project/other.ts")')}]`)
+    expect(assets['lazy.js']).toBe(`[${app}, ${app}]`)
+  })
+
+  test('runs at most `concurrency` child compilations at once', async () => {
+    const { compiler, compile, builds, stats } = createCompiler()
+    const inlineRegistry = new Map<string, InlineEntry>()
+    const markers = ['a', 'b', 'c', 'd', 'e'].map((name) => register(inlineRegistry, `/project/${name}.ts`))
+    createWebpackLikeHandler(compiler, handlerOptions(inlineRegistry, { concurrency: 2 }))
+
+    const { assets } = await compile({ 'main.js': JSON.stringify(markers) })
+
+    expect(builds).toHaveLength(5)
+    expect(stats.maxRunning).toBe(2)
+    expect(assets['main.js']).not.toContain('__INLINE_BUILD_')
+  })
+})